@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import SplashScreen from './components/SplashScreen';
+import HomeScreen from './components/HomeScreen';
+import EditorScreen from './components/EditorScreen';
+import HistoryScreen from './components/HistoryScreen';
+import BatchScreen from './components/BatchScreen';
+import { EditRecipe } from './utils/historyStore';
+import { EditorSession } from './utils/session';
+
+const SPLASH_DURATION = 1500;
+
+// Saved edits live in IndexedDB (utils/historyStore), so screens only pass along what the
+// next one needs to open
+type Screen =
+  | { name: 'splash' }
+  | { name: 'home' }
+  | { name: 'editor'; imageUri: string; recipe?: EditRecipe; session?: EditorSession }
+  | { name: 'history' }
+  | { name: 'batch'; files: File[] };
+
+const App: React.FC = () => {
+  const [screen, setScreen] = useState<Screen>({ name: 'splash' });
+  // a new key for every opened image, so the editor starts fresh
+  const [editorKey, setEditorKey] = useState(0);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setScreen((s) => (s.name === 'splash' ? { name: 'home' } : s)), SPLASH_DURATION);
+    return () => window.clearTimeout(timer);
+  }, []);
+
+  const openEditor = (next: Omit<Extract<Screen, { name: 'editor' }>, 'name'>) => {
+    setEditorKey((k) => k + 1);
+    setScreen({ name: 'editor', ...next });
+  };
+
+  const goHome = () => setScreen({ name: 'home' });
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+      {screen.name === 'splash' && <SplashScreen />}
+      {screen.name === 'home' && (
+        <HomeScreen
+          onImageSelect={(imageUri) => openEditor({ imageUri })}
+          onViewHistory={() => setScreen({ name: 'history' })}
+          onResume={(imageUri, session) => openEditor({ imageUri, session })}
+          onBatchSelect={(files) => setScreen({ name: 'batch', files })}
+        />
+      )}
+      {screen.name === 'editor' && (
+        <EditorScreen
+          key={editorKey}
+          imageUri={screen.imageUri}
+          initialRecipe={screen.recipe}
+          initialSession={screen.session}
+          onBack={goHome}
+          onSave={() => setScreen({ name: 'history' })}
+        />
+      )}
+      {screen.name === 'batch' && <BatchScreen files={screen.files} onBack={goHome} />}
+      {screen.name === 'history' && <HistoryScreen onReEdit={(imageUri, recipe) => openEditor({ imageUri, recipe })} onBack={goHome} />}
+    </div>
+  );
+};
+
+export default App;
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import { BackIcon, MoonIcon, SunIcon } from './icons';
+import { useTheme } from '../hooks/useTheme';
+import { processBatchFile } from '../utils/batch';
+import { BatchRecipe, DEFAULT_BATCH_RECIPE } from '../utils/batchRecipe';
+import { addHistory } from '../utils/historyStore';
+import { formatKB } from '../utils/compress';
+import { downloadBlob } from '../utils/image';
+import { CROP_RATIOS, EncodedImage } from '../utils/pipeline';
+import { WatermarkTemplate } from '../utils/watermark';
+import { loadAutoWatermark, listWatermarks } from '../utils/watermarkStore';
+import { createZip, ZipEntry } from '../utils/zip';
+
+interface BatchScreenProps {
+  files: File[];
+  onBack: () => void;
+}
+
+type FileStatus =
+  | { state: 'pending' }
+  | { state: 'running' }
+  | { state: 'done'; bytes: number; width: number; height: number }
+  | { state: 'failed'; error: string };
+
+const inputClass = 'w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600';
+const toggleClass = (active: boolean) =>
+  `p-2 border rounded dark:border-gray-600 ${active ? 'bg-blue-500 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`;
+
+const outputName = (file: File) => `${file.name.replace(/\.[^.]+$/, '') || 'image'}.jpg`;
+
+const BatchScreen: React.FC<BatchScreenProps> = ({ files, onBack }) => {
+  const { theme, toggleTheme } = useTheme();
+  const [recipe, setRecipe] = useState<BatchRecipe>(DEFAULT_BATCH_RECIPE);
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const [sample, setSample] = useState<{ url: string; result: EncodedImage } | null>(null);
+  const [sampleBusy, setSampleBusy] = useState(false);
+  const [saveToHistory, setSaveToHistory] = useState(true);
+  const [downloadZip, setDownloadZip] = useState(true);
+  const [statuses, setStatuses] = useState<FileStatus[]>(() => files.map(() => ({ state: 'pending' })));
+  const [running, setRunning] = useState(false);
+  const [watermarks, setWatermarks] = useState<WatermarkTemplate[]>([]);
+
+  const update = (patch: Partial<BatchRecipe>) => {
+    setRecipe((r) => ({ ...r, ...patch }));
+    setSample(null);
+  };
+
+  // saved templates to pick from, starting on the one stamped automatically on exports
+  useEffect(() => {
+    Promise.all([listWatermarks(), loadAutoWatermark()])
+      .then(([list, auto]) => {
+        setWatermarks(list);
+        if (auto) setRecipe((r) => ({ ...r, watermark: auto }));
+      })
+      .catch((err) => console.error('Loading watermarks failed:', err));
+  }, []);
+
+  const handlePreview = async () => {
+    setSampleBusy(true);
+    try {
+      const { encoded } = await processBatchFile(files[sampleIndex], recipe);
+      setSample({ url: encoded.dataUrl, result: encoded });
+    } catch (err) {
+      console.error(err);
+      alert('Could not process the sample image.');
+    } finally {
+      setSampleBusy(false);
+    }
+  };
+
+  const setStatus = (index: number, status: FileStatus) =>
+    setStatuses((s) => s.map((old, i) => (i === index ? status : old)));
+
+  // one file at a time so a low-memory phone only ever holds a single decoded image
+  const handleRun = async () => {
+    setRunning(true);
+    setStatuses(files.map(() => ({ state: 'pending' })));
+    const zipEntries: ZipEntry[] = [];
+    const usedNames = new Set<string>();
+    let evicted = 0;
+    for (let i = 0; i < files.length; i++) {
+      setStatus(i, { state: 'running' });
+      try {
+        const { original, operations, encoded } = await processBatchFile(files[i], recipe);
+        const image = await (await fetch(encoded.dataUrl)).blob();
+        if (saveToHistory) evicted += (await addHistory({ image, recipe: { original, operations } })).evicted;
+        if (downloadZip) {
+          let name = outputName(files[i]);
+          for (let n = 2; usedNames.has(name); n++) name = outputName(files[i]).replace(/\.jpg$/, `_${n}.jpg`);
+          usedNames.add(name);
+          zipEntries.push({ name, data: image });
+        }
+        setStatus(i, { state: 'done', bytes: encoded.bytes, width: encoded.width, height: encoded.height });
+      } catch (err) {
+        console.error(`Batch failed for ${files[i].name}:`, err);
+        setStatus(i, { state: 'failed', error: err instanceof Error ? err.message : 'Processing failed' });
+      }
+    }
+    if (zipEntries.length > 0) downloadBlob(await createZip(zipEntries), `EasyPix_batch_${Date.now()}.zip`);
+    if (evicted > 0) alert(`Storage was full, so the ${evicted} oldest saved edit(s) were removed.`);
+    setRunning(false);
+  };
+
+  const done = statuses.filter((s) => s.state === 'done').length;
+  const failed = statuses.filter((s) => s.state === 'failed').length;
+  const finished = done + failed;
+
+  return (
+    <div className="flex flex-col h-full">
+      <header className="flex items-center justify-between p-2 bg-white dark:bg-gray-800 shadow-md sticky top-0 z-10">
+        <button onClick={onBack} disabled={running} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"><BackIcon className="w-6 h-6"/></button>
+        <h2 className="font-bold text-lg">Batch · {files.length} images</h2>
+        <button onClick={toggleTheme} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+          {theme === 'light' ? <MoonIcon className="w-6 h-6" /> : <SunIcon className="w-6 h-6" />}
+        </button>
+      </header>
+      <main className="flex-1 p-4 overflow-y-auto">
+        <div className="max-w-md mx-auto flex flex-col gap-4">
+          <section className="flex flex-col gap-2">
+            <h3 className="font-bold">Crop</h3>
+            <div className="grid grid-cols-3 gap-2">
+              <button onClick={() => update({ ratio: null })} className={toggleClass(!recipe.ratio)}>None</button>
+              {CROP_RATIOS.map((r) => (
+                <button key={r.name} onClick={() => update({ ratio: r })} className={toggleClass(recipe.ratio?.name === r.name)}>
+                  {r.name}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <label className="flex items-center gap-2 font-bold">
+              <input type="checkbox" checked={!!recipe.resize} onChange={(e) => update({ resize: e.target.checked ? { width: 600, height: 800 } : null })} />
+              Resize
+            </label>
+            {recipe.resize && (
+              <div className="flex gap-2">
+                <label className="flex-1 text-sm">
+                  Width (px)
+                  <input type="number" min={1} value={recipe.resize.width} onChange={(e) => update({ resize: { ...recipe.resize!, width: Number(e.target.value) } })} className={inputClass} />
+                </label>
+                <label className="flex-1 text-sm">
+                  Height (px)
+                  <input type="number" min={1} value={recipe.resize.height} onChange={(e) => update({ resize: { ...recipe.resize!, height: Number(e.target.value) } })} className={inputClass} />
+                </label>
+              </div>
+            )}
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <h3 className="font-bold">Enhance</h3>
+            {(['brightness', 'contrast', 'saturation'] as const).map((key) => (
+              <label key={key} className="text-sm capitalize">
+                {key}: {recipe[key]}%
+                <input type="range" min={50} max={150} value={recipe[key]} onChange={(e) => update({ [key]: Number(e.target.value) })} className="w-full" />
+              </label>
+            ))}
+          </section>
+
+          {watermarks.length > 0 && (
+            <section className="flex flex-col gap-2">
+              <h3 className="font-bold">Watermark</h3>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => update({ watermark: null })} className={toggleClass(!recipe.watermark)}>None</button>
+                {watermarks.map((w) => (
+                  <button key={w.id} onClick={() => update({ watermark: w })} className={toggleClass(recipe.watermark?.id === w.id)}>
+                    {w.name}
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section className="flex flex-col gap-2">
+            <h3 className="font-bold">Target file size</h3>
+            <div className="flex gap-2">
+              <label className="flex-1 text-sm">
+                Max KB
+                <input type="number" min={1} value={recipe.maxKB ?? ''} placeholder="None" onChange={(e) => update({ maxKB: e.target.value ? Number(e.target.value) : null })} className={inputClass} />
+              </label>
+              <label className="flex-1 text-sm">
+                Min KB
+                <input type="number" min={0} value={recipe.minKB ?? ''} placeholder="None" disabled={!recipe.maxKB} onChange={(e) => update({ minKB: e.target.value ? Number(e.target.value) : null })} className={inputClass} />
+              </label>
+            </div>
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <h3 className="font-bold">Preview</h3>
+            <div className="flex gap-2">
+              <select value={sampleIndex} onChange={(e) => { setSampleIndex(Number(e.target.value)); setSample(null); }} className={`flex-1 ${inputClass}`}>
+                {files.map((f, i) => <option key={i} value={i}>{f.name}</option>)}
+              </select>
+              <button onClick={handlePreview} disabled={sampleBusy || running} className="px-4 bg-gray-200 dark:bg-gray-700 rounded disabled:opacity-50">
+                {sampleBusy ? '...' : 'Preview'}
+              </button>
+            </div>
+            {sample && (
+              <div className="flex flex-col items-center gap-1">
+                <img src={sample.url} alt="Sample result" className="max-h-64 object-contain rounded shadow" />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {sample.result.width} × {sample.result.height} px · {formatKB(sample.result.bytes)}
+                  {sample.result.belowMin && ' · below the minimum size'}
+                </p>
+              </div>
+            )}
+          </section>
+
+          <section className="flex flex-col gap-2">
+            <h3 className="font-bold">Output</h3>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={saveToHistory} onChange={(e) => setSaveToHistory(e.target.checked)} />
+              Save each image to history
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={downloadZip} onChange={(e) => setDownloadZip(e.target.checked)} />
+              Download all as one ZIP
+            </label>
+            <button
+              onClick={handleRun}
+              disabled={running || (!saveToHistory && !downloadZip)}
+              className="w-full bg-blue-500 text-white p-2 rounded disabled:opacity-50"
+            >
+              {running ? `Processing ${Math.min(finished + 1, files.length)} of ${files.length}...` : `Process ${files.length} images`}
+            </button>
+            {finished > 0 && (
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded">
+                <div className="h-2 bg-blue-500 rounded" style={{ width: `${(finished / files.length) * 100}%` }} />
+              </div>
+            )}
+            {!running && finished === files.length && (
+              <p className={`text-sm ${failed ? 'text-yellow-500' : 'text-green-500'}`}>
+                {done} processed{failed ? `, ${failed} failed` : ''}.
+              </p>
+            )}
+          </section>
+
+          <ul className="text-sm divide-y divide-gray-200 dark:divide-gray-700">
+            {files.map((f, i) => {
+              const s = statuses[i];
+              return (
+                <li key={i} className="flex justify-between gap-2 py-1">
+                  <span className="truncate">{f.name}</span>
+                  <span className={s.state === 'failed' ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}>
+                    {s.state === 'pending' && 'Waiting'}
+                    {s.state === 'running' && 'Processing...'}
+                    {s.state === 'done' && `${s.width} × ${s.height} · ${formatKB(s.bytes)}`}
+                    {s.state === 'failed' && s.error}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default BatchScreen;
\ No newline at end of file
@@ -0,0 +1,92 @@
+import React, { useState } from "react";
+import { CompressResult, formatKB } from "../utils/compress";
+
+interface CompressPanelProps {
+  quality: number;
+  onQualityChange: (quality: number) => void;
+  onApplyQuality: () => void;
+  onApplyTarget: (maxKB: number, minKB: number) => Promise<CompressResult | null>;
+  onDone: () => void;
+}
+
+type Mode = "quality" | "target";
+
+// Compress either with a fixed JPEG quality or by searching for a target file size
+export default function CompressPanel({ quality, onQualityChange, onApplyQuality, onApplyTarget, onDone }: CompressPanelProps) {
+  const [mode, setMode] = useState<Mode>("quality");
+  const [maxKB, setMaxKB] = useState(50);
+  const [minKB, setMinKB] = useState(0);
+  const [result, setResult] = useState<CompressResult | null>(null);
+
+  const validTarget = maxKB > 0 && minKB >= 0 && minKB < maxKB;
+
+  if (result) {
+    return (
+      <div className="flex flex-col gap-2">
+        <h3 className="text-lg font-bold">Compressed</h3>
+        <p className="text-sm">Size: {formatKB(result.bytes)}</p>
+        <p className="text-sm">Dimensions: {result.width} × {result.height} px</p>
+        <p className="text-sm">Quality used: {result.quality}</p>
+        {result.belowMin && (
+          <p className="text-sm text-yellow-500">Still under {minKB} KB at full quality — the portal may reject it. Try resizing to a larger size first.</p>
+        )}
+        <button onClick={onDone} className="w-full bg-blue-500 text-white p-2 rounded">Done</button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-bold mb-4">Compress Image</h3>
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={() => setMode("quality")}
+          className={`flex-1 p-2 border rounded dark:border-gray-600 ${mode === "quality" ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+        >
+          Quality
+        </button>
+        <button
+          onClick={() => setMode("target")}
+          className={`flex-1 p-2 border rounded dark:border-gray-600 ${mode === "target" ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+        >
+          Target size
+        </button>
+      </div>
+
+      {mode === "quality" ? (
+        <>
+          <p className="text-sm mb-2">Quality: {quality}</p>
+          <input type="range" min={1} max={100} value={quality} onChange={(e) => onQualityChange(parseInt(e.target.value))} className="w-full" />
+          <div className="mt-4">
+            <button onClick={onApplyQuality} className="w-full bg-blue-500 text-white p-2 rounded">
+              Apply
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <label className="flex-1 text-sm">
+              Max KB
+              <input type="number" min={1} value={maxKB} onChange={(e) => setMaxKB(Number(e.target.value))} className="w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600" />
+            </label>
+            <label className="flex-1 text-sm">
+              Min KB (optional)
+              <input type="number" min={0} value={minKB} onChange={(e) => setMinKB(Number(e.target.value))} className="w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600" />
+            </label>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">Quality is searched automatically; the image is scaled down only if it can't fit otherwise.</p>
+          <div className="mt-4">
+            <button
+              disabled={!validTarget}
+              onClick={async () => setResult(await onApplyTarget(maxKB, minKB))}
+              className="w-full bg-blue-500 text-white p-2 rounded disabled:opacity-50"
+            >
+              Compress to {minKB > 0 ? `${minKB}–` : "≤ "}{maxKB} KB
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,103 +1,278 @@
 import React, { useEffect, useRef, useState } from "react";
+import { useImageViewport } from "../hooks/useImageViewport";
+import { NormalizedRect } from "../utils/pipeline";
 
 interface CropToolProps {
   image: string; // dataURL or URL
-  onCropDone: (dataUrl: string) => void;
+  // size of the image being cropped in real pixels; `image` may be a downscaled preview
+  imageWidth: number;
+  imageHeight: number;
+  onCropDone: (rect: NormalizedRect) => void;
   onCancel: () => void;
+  aspect?: number; // locked width / height, e.g. from a document preset
 }
 
-// Lightweight crop UI — draws a draggable/resizable rect overlay on top of the image
-export default function CropTool({ image, onCropDone, onCancel }: CropToolProps) {
+type Handle = "move" | "n" | "s" | "e" | "w" | "ne" | "nw" | "se" | "sw";
+// crop box in image pixels
+type Box = { x: number; y: number; w: number; h: number };
+
+const HANDLES: Exclude<Handle, "move">[] = ["nw", "n", "ne", "e", "se", "s", "sw", "w"];
+const HANDLE_CURSORS: Record<Exclude<Handle, "move">, string> = {
+  n: "ns-resize",
+  s: "ns-resize",
+  e: "ew-resize",
+  w: "ew-resize",
+  ne: "nesw-resize",
+  sw: "nesw-resize",
+  nw: "nwse-resize",
+  se: "nwse-resize",
+};
+
+const ASPECT_OPTIONS = [
+  { name: "Free", value: 0 },
+  { name: "1:1", value: 1 },
+  { name: "4:3", value: 4 / 3 },
+  { name: "3:4", value: 3 / 4 },
+  { name: "16:9", value: 16 / 9 },
+  { name: "9:16", value: 9 / 16 },
+];
+
+// smallest crop side, in screen pixels, so handles stay usable
+const MIN_SCREEN_SIZE = 24;
+
+const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+
+// largest box of the given aspect centred on (cx, cy), no bigger than maxW × maxH and inside the image
+const fitAspect = (cx: number, cy: number, maxW: number, maxH: number, aspect: number, iw: number, ih: number): Box => {
+  const w = Math.max(1, Math.min(maxW, maxH * aspect, 2 * Math.min(cx, iw - cx), 2 * Math.min(cy, ih - cy) * aspect));
+  const h = w / aspect;
+  return { x: clamp(cx - w / 2, 0, iw - w), y: clamp(cy - h / 2, 0, ih - h), w, h };
+};
+
+/**
+ * New crop box for a drag of (dx, dy) image pixels on `handle`, kept inside the image and
+ * at least `min` pixels. With an aspect ratio, corners anchor the opposite corner and
+ * edges keep the box centred on the other axis.
+ */
+const resizeBox = (start: Box, handle: Handle, dx: number, dy: number, iw: number, ih: number, min: number, aspect?: number): Box => {
+  if (handle === "move") {
+    return { ...start, x: clamp(start.x + dx, 0, iw - start.w), y: clamp(start.y + dy, 0, ih - start.h) };
+  }
+  const west = handle.includes("w");
+  const east = handle.includes("e");
+  const north = handle.includes("n");
+  const south = handle.includes("s");
+
+  if (!aspect) {
+    let left = start.x;
+    let top = start.y;
+    let right = start.x + start.w;
+    let bottom = start.y + start.h;
+    if (west) left = clamp(left + dx, 0, right - min);
+    if (east) right = clamp(right + dx, left + min, iw);
+    if (north) top = clamp(top + dy, 0, bottom - min);
+    if (south) bottom = clamp(bottom + dy, top + min, ih);
+    return { x: left, y: top, w: right - left, h: bottom - top };
+  }
+
+  const minW = Math.max(min, min * aspect);
+  if (handle === "e" || handle === "w") {
+    const cy = start.y + start.h / 2;
+    const room = west ? start.x + start.w : iw - start.x;
+    const w = clamp(start.w + (west ? -dx : dx), minW, Math.min(room, 2 * Math.min(cy, ih - cy) * aspect));
+    const h = w / aspect;
+    return { x: west ? start.x + start.w - w : start.x, y: cy - h / 2, w, h };
+  }
+  if (handle === "n" || handle === "s") {
+    const cx = start.x + start.w / 2;
+    const room = north ? start.y + start.h : ih - start.y;
+    const h = clamp(start.h + (north ? -dy : dy), minW / aspect, Math.min(room, (2 * Math.min(cx, iw - cx)) / aspect));
+    const w = h * aspect;
+    return { x: cx - w / 2, y: north ? start.y + start.h - h : start.y, w, h };
+  }
+  // corner: follow whichever axis moved further, anchored at the opposite corner
+  const ax = west ? start.x + start.w : start.x;
+  const ay = north ? start.y + start.h : start.y;
+  const byWidth = start.w + (west ? -dx : dx);
+  const byHeight = (start.h + (north ? -dy : dy)) * aspect;
+  const roomW = west ? ax : iw - ax;
+  const roomH = north ? ay : ih - ay;
+  const w = clamp(Math.max(byWidth, byHeight), minW, Math.min(roomW, roomH * aspect));
+  const h = w / aspect;
+  return { x: west ? ax - w : ax, y: north ? ay - h : ay, w, h };
+};
+
+// Crop overlay with eight handles, optional aspect lock, thirds grid and exact pixel entry
+export default function CropTool({ image, imageWidth, imageHeight, onCropDone, onCancel, aspect: lockedAspect }: CropToolProps) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const imgRef = useRef<HTMLImageElement | null>(null);
-  const [crop, setCrop] = useState({ x: 40, y: 40, w: 200, h: 200 });
-  const dragRef = useRef<{ mode: string | null; startX: number; startY: number; startCrop: any } | null>(null);
+  const iw = Math.max(1, imageWidth);
+  const ih = Math.max(1, imageHeight);
+  const [chosenAspect, setChosenAspect] = useState(0);
+  const aspect = lockedAspect || chosenAspect || undefined;
+  const [crop, setCrop] = useState<Box>(() => ({ x: iw * 0.1, y: ih * 0.1, w: iw * 0.8, h: ih * 0.8 }));
+  // where the image content sits inside the (letterboxing) container
+  const { view, measure } = useImageViewport(containerRef, imgRef, iw, ih);
+  const dragRef = useRef<{ handle: Handle; startX: number; startY: number; startCrop: Box } | null>(null);
 
   useEffect(() => {
-    // center crop when image loads
-    const img = new Image();
-    img.src = image;
-    img.onload = () => {
-      const container = containerRef.current;
-      if (!container) return;
-      const w = container.clientWidth;
-      const h = container.clientHeight;
-      const size = Math.min(w, h) * 0.6;
-      setCrop({ x: (w - size) / 2, y: (h - size) / 2, w: size, h: size });
-    };
-  }, [image]);
-
-  const startDrag = (mode: string, e: React.PointerEvent) => {
-    const id = e.pointerId;
-    (e.target as Element).setPointerCapture?.(id);
-    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: { ...crop } };
+    // start centred: 80% of the image, or the largest box of the locked ratio
+    setCrop(aspect ? fitAspect(iw / 2, ih / 2, iw * 0.9, ih * 0.9, aspect, iw, ih) : { x: iw * 0.1, y: ih * 0.1, w: iw * 0.8, h: ih * 0.8 });
+    containerRef.current?.focus();
+  }, [image, iw, ih, lockedAspect]);
+
+  const chooseAspect = (value: number) => {
+    setChosenAspect(value);
+    if (value) setCrop((c) => fitAspect(c.x + c.w / 2, c.y + c.h / 2, c.w, c.h, value, iw, ih));
+  };
+
+  const minSize = MIN_SCREEN_SIZE / view.scale;
+
+  const startDrag = (handle: Handle, e: React.PointerEvent) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, startCrop: { ...crop } };
   };
 
   const onMove = (e: React.PointerEvent) => {
     if (!dragRef.current) return;
-    const { mode, startX, startY, startCrop } = dragRef.current;
-    const dx = e.clientX - startX;
-    const dy = e.clientY - startY;
-    const cont = containerRef.current!;
-    const clamp = (v: number, a = 0, b = 1e9) => Math.max(a, Math.min(b, v));
-    if (mode === "move") {
-      setCrop((c) => ({ ...c, x: clamp(startCrop.x + dx, 0, cont.clientWidth - c.w), y: clamp(startCrop.y + dy, 0, cont.clientHeight - c.h) }));
-    } else if (mode === "se") {
-      setCrop((c) => ({ ...c, w: clamp(startCrop.w + dx, 40, cont.clientWidth - startCrop.x), h: clamp(startCrop.h + dy, 40, cont.clientHeight - startCrop.y) }));
-    } else if (mode === "nw") {
-      const nx = clamp(startCrop.x + dx, 0, startCrop.x + startCrop.w - 40);
-      const ny = clamp(startCrop.y + dy, 0, startCrop.y + startCrop.h - 40);
-      setCrop((c) => ({ ...c, x: nx, y: ny, w: startCrop.w + (startCrop.x - nx), h: startCrop.h + (startCrop.y - ny) }));
-    }
-    // other handles can be added similarly
+    const { handle, startX, startY, startCrop } = dragRef.current;
+    // screen movement to image pixels
+    const dx = (e.clientX - startX) / view.scale;
+    const dy = (e.clientY - startY) / view.scale;
+    setCrop(resizeBox(startCrop, handle, dx, dy, iw, ih, Math.min(minSize, iw, ih), aspect));
   };
 
   const endDrag = (e: React.PointerEvent) => {
-    (e.target as Element).releasePointerCapture?.(e.pointerId);
+    containerRef.current?.releasePointerCapture?.(e.pointerId);
     dragRef.current = null;
   };
 
+  // arrow keys nudge by a pixel, with shift by ten
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 10 : 1;
+    const delta: Record<string, [number, number]> = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] };
+    const d = delta[e.key];
+    if (!d) return;
+    e.preventDefault();
+    setCrop((c) => resizeBox(c, "move", d[0], d[1], iw, ih, 1));
+  };
+
+  // numeric entry in image pixels; with a locked ratio the other side follows
+  const setField = (field: keyof Box, value: number) => {
+    if (!Number.isFinite(value)) return;
+    setCrop((c) => {
+      let { x, y, w, h } = c;
+      if (field === "x") x = clamp(value, 0, iw - w);
+      if (field === "y") y = clamp(value, 0, ih - h);
+      if (field === "w") {
+        w = clamp(value, 1, iw - x);
+        if (aspect) {
+          w = Math.min(w, (ih - y) * aspect);
+          h = w / aspect;
+        }
+      }
+      if (field === "h") {
+        h = clamp(value, 1, ih - y);
+        if (aspect) {
+          h = Math.min(h, (iw - x) / aspect);
+          w = h * aspect;
+        }
+      }
+      return { x, y, w, h };
+    });
+  };
+
   const applyCrop = () => {
-    const img = imgRef.current!;
-    const naturalW = img.naturalWidth;
-    const naturalH = img.naturalHeight;
-    const rect = img.getBoundingClientRect();
-    // compute scale from display to natural
-    const scaleX = naturalW / rect.width;
-    const scaleY = naturalH / rect.height;
-    const sx = Math.round(crop.x * scaleX);
-    const sy = Math.round(crop.y * scaleY);
-    const sw = Math.round(crop.w * scaleX);
-    const sh = Math.round(crop.h * scaleY);
-    const canvas = document.createElement("canvas");
-    canvas.width = sw;
-    canvas.height = sh;
-    const ctx = canvas.getContext("2d")!;
-    const imageEl = new Image();
-    imageEl.crossOrigin = "anonymous";
-    imageEl.src = image;
-    imageEl.onload = () => {
-      ctx.drawImage(imageEl, sx, sy, sw, sh, 0, 0, sw, sh);
-      const data = canvas.toDataURL("image/png");
-      onCropDone(data);
-    };
+    // snap to whole pixels so the full-resolution crop is exactly what the fields show
+    const x = Math.round(crop.x);
+    const y = Math.round(crop.y);
+    const w = Math.max(1, Math.min(iw - x, Math.round(crop.w)));
+    const h = Math.max(1, Math.min(ih - y, Math.round(crop.h)));
+    onCropDone({ x: x / iw, y: y / ih, w: w / iw, h: h / ih });
   };
 
+  const box = {
+    left: view.left + crop.x * view.scale,
+    top: view.top + crop.y * view.scale,
+    width: crop.w * view.scale,
+    height: crop.h * view.scale,
+  };
+
+  const handleStyle = (handle: Exclude<Handle, "move">): React.CSSProperties => ({
+    position: "absolute",
+    width: 16,
+    height: 16,
+    background: "white",
+    borderRadius: 4,
+    cursor: HANDLE_CURSORS[handle],
+    left: handle.includes("w") ? -8 : handle.includes("e") ? "calc(100% - 8px)" : "calc(50% - 8px)",
+    top: handle.includes("n") ? -8 : handle.includes("s") ? "calc(100% - 8px)" : "calc(50% - 8px)",
+  });
+
   return (
-    <div ref={containerRef} className="relative flex-1" style={{ height: 220 }}>
-      <img ref={imgRef} src={image} alt="crop preview" className="w-full h-full object-contain pointer-events-none" draggable={false} />
+    <div className="flex-1 flex flex-col gap-2">
       <div
-        className="absolute border-2 border-blue-400 bg-blue-500/10"
-        style={{ left: crop.x, top: crop.y, width: crop.w, height: crop.h, touchAction: "none" }}
-        onPointerDown={(e) => startDrag("move", e)}
-        onPointerMove={(e) => onMove(e)}
-        onPointerUp={(e) => endDrag(e)}
+        ref={containerRef}
+        tabIndex={0}
+        className="relative overflow-hidden outline-none"
+        style={{ height: 260, touchAction: "none" }}
+        onPointerMove={onMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onKeyDown={onKeyDown}
       >
-        <div style={{ position: "absolute", right: -8, bottom: -8, width: 16, height: 16, background: "white", borderRadius: 4, cursor: "nwse-resize" }} onPointerDown={(e) => startDrag("se", e)} />
-        <div style={{ position: "absolute", left: -8, top: -8, width: 16, height: 16, background: "white", borderRadius: 4, cursor: "nwse-resize" }} onPointerDown={(e) => startDrag("nw", e)} />
+        <img ref={imgRef} src={image} alt="crop preview" className="w-full h-full object-contain pointer-events-none" draggable={false} onLoad={measure} />
+        <div
+          className="absolute border-2 border-blue-400"
+          style={{ ...box, boxShadow: "0 0 0 9999px rgba(0,0,0,0.5)", cursor: "move" }}
+          onPointerDown={(e) => startDrag("move", e)}
+        >
+          {/* rule of thirds */}
+          <div className="absolute inset-0 pointer-events-none">
+            {[1, 2].map((i) => (
+              <React.Fragment key={i}>
+                <div className="absolute top-0 bottom-0 border-l border-white/40" style={{ left: `${(i * 100) / 3}%` }} />
+                <div className="absolute left-0 right-0 border-t border-white/40" style={{ top: `${(i * 100) / 3}%` }} />
+              </React.Fragment>
+            ))}
+          </div>
+          {HANDLES.map((handle) => (
+            <div key={handle} style={handleStyle(handle)} onPointerDown={(e) => startDrag(handle, e)} />
+          ))}
+        </div>
       </div>
 
-      <div className="flex gap-2 mt-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(["x", "y", "w", "h"] as const).map((field) => (
+          <label key={field} className="flex items-center gap-1">
+            {field.toUpperCase()}
+            <input
+              type="number"
+              value={Math.round(crop[field])}
+              onChange={(e) => setField(field, Number(e.target.value))}
+              className="w-20 p-1 rounded bg-gray-700 border border-gray-600"
+            />
+          </label>
+        ))}
+        <span className="text-xs text-gray-400">px of {iw} × {ih}</span>
+      </div>
+
+      {!lockedAspect && (
+        <div className="flex flex-wrap gap-1">
+          {ASPECT_OPTIONS.map((o) => (
+            <button
+              key={o.name}
+              onClick={() => chooseAspect(o.value)}
+              className={`px-2 py-1 text-xs rounded ${chosenAspect === o.value ? "bg-blue-600 text-white" : "bg-gray-700 hover:bg-gray-600"}`}
+            >
+              {o.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
         <button onClick={onCancel} className="px-4 py-2 bg-gray-600 rounded">Cancel</button>
         <button onClick={applyCrop} className="px-4 py-2 bg-blue-600 text-white rounded">Apply Crop</button>
       </div>
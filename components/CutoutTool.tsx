@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useImageViewport } from "../hooks/useImageViewport";
+import { BACKGROUND_COLORS, Cutout, CutoutBackground, DEFAULT_BLUR, renderCutout } from "../utils/cutout";
+import { canvasToBlob, createCanvas, DrawingCanvas, getContext2d, loadImage } from "../utils/image";
+import { decodeBlob } from "../utils/pipeline";
+
+interface CutoutToolProps {
+  // the image before the cut-out
+  image: string;
+  imageWidth: number;
+  imageHeight: number;
+  cutout: Cutout;
+  onDone: (cutout: Cutout) => void;
+  onCancel: () => void;
+}
+
+type Brush = "erase" | "restore";
+
+const buttonClass = "px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50";
+const toggleClass = (active: boolean) => `px-2 py-1 text-xs rounded ${active ? "bg-blue-600 text-white" : "bg-gray-700 hover:bg-gray-600"}`;
+
+// transparent areas show as a checkerboard
+const CHECKERBOARD = "repeating-conic-gradient(#9ca3af 0% 25%, #e5e7eb 0% 50%) 0 0 / 16px 16px";
+
+// Touch up a background removal: paint the mask back in or away, soften its edge and pick
+// what goes behind the subject
+export default function CutoutTool({ image, imageWidth, imageHeight, cutout, onDone, onCancel }: CutoutToolProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const bgInputRef = useRef<HTMLInputElement | null>(null);
+  const iw = Math.max(1, imageWidth);
+  const ih = Math.max(1, imageHeight);
+  const { view, measure } = useImageViewport(containerRef, imgRef, iw, ih);
+
+  const [background, setBackground] = useState<CutoutBackground>(cutout.background);
+  const [feather, setFeather] = useState(cutout.feather);
+  const [brush, setBrush] = useState<Brush>("erase");
+  // brush diameter as a fraction of the shorter side
+  const [brushSize, setBrushSize] = useState(0.04);
+  const [maskOnly, setMaskOnly] = useState(false);
+  const [base, setBase] = useState<HTMLImageElement | null>(null);
+  const [backgroundImage, setBackgroundImage] = useState<ImageBitmap | null>(null);
+  // the mask being painted, at its full resolution
+  const maskRef = useRef<DrawingCanvas | null>(null);
+  const [maskVersion, setMaskVersion] = useState(0);
+  const [painted, setPainted] = useState(false);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const frame = useRef(0);
+
+  const loadMask = async () => {
+    const bitmap = await decodeBlob(cutout.mask);
+    const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    maskRef.current = canvas;
+    setPainted(false);
+    setMaskVersion((v) => v + 1);
+  };
+
+  useEffect(() => {
+    loadMask().catch((err) => console.error("Loading mask failed:", err));
+  }, [cutout.mask]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image)
+      .then((img) => !cancelled && setBase(img))
+      .catch((err) => console.error("Loading cut-out image failed:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  useEffect(() => {
+    if (background.kind !== "image") {
+      setBackgroundImage(null);
+      return;
+    }
+    let cancelled = false;
+    decodeBlob(background.image)
+      .then((bitmap) => !cancelled && setBackgroundImage(bitmap))
+      .catch((err) => console.error("Loading background failed:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [background]);
+
+  // composite at preview size; the mask view shows the mask white on black
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const mask = maskRef.current;
+    if (!canvas || !mask || !base) return;
+    const input = createCanvas(base.naturalWidth, base.naturalHeight);
+    if (maskOnly) {
+      input.ctx.fillStyle = "#fff";
+      input.ctx.fillRect(0, 0, input.canvas.width, input.canvas.height);
+    } else {
+      input.ctx.drawImage(base, 0, 0);
+    }
+    const result = renderCutout(input.canvas, { background: maskOnly ? { kind: "color", color: "#000" } : background, feather }, mask, backgroundImage);
+    canvas.width = result.width;
+    canvas.height = result.height;
+    canvas.getContext("2d")!.drawImage(result, 0, 0);
+  };
+
+  useEffect(() => {
+    cancelAnimationFrame(frame.current);
+    frame.current = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame.current);
+  }, [base, background, backgroundImage, feather, maskOnly, maskVersion]);
+
+  const toMask = (e: React.PointerEvent) => {
+    const c = containerRef.current!.getBoundingClientRect();
+    const mask = maskRef.current!;
+    return {
+      x: ((e.clientX - c.left - view.left) / (iw * view.scale)) * mask.width,
+      y: ((e.clientY - c.top - view.top) / (ih * view.scale)) * mask.height,
+    };
+  };
+
+  const paint = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const mask = maskRef.current!;
+    const ctx = getContext2d(mask);
+    ctx.save();
+    ctx.globalCompositeOperation = brush === "erase" ? "destination-out" : "source-over";
+    ctx.strokeStyle = "#fff";
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.lineWidth = Math.max(1, brushSize * Math.min(mask.width, mask.height));
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.restore();
+    setPainted(true);
+    setMaskVersion((v) => v + 1);
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!maskRef.current) return;
+    containerRef.current!.setPointerCapture(e.pointerId);
+    const p = toMask(e);
+    lastPoint.current = p;
+    paint(p, p);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!lastPoint.current) return;
+    const p = toMask(e);
+    paint(lastPoint.current, p);
+    lastPoint.current = p;
+  };
+
+  const endStroke = (e: React.PointerEvent) => {
+    containerRef.current?.releasePointerCapture?.(e.pointerId);
+    lastPoint.current = null;
+  };
+
+  const handleBackgroundFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) setBackground({ kind: "image", image: file });
+  };
+
+  const handleDone = async () => {
+    try {
+      // an untouched mask keeps its blob, so the step isn't stored twice
+      const mask = painted && maskRef.current ? await canvasToBlob(maskRef.current, "image/png") : cutout.mask;
+      onDone({ mask, background, feather });
+    } catch (err) {
+      console.error("Saving mask failed:", err);
+      alert("Couldn't save the mask.");
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-2">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden"
+        style={{ height: 260, touchAction: "none", cursor: "crosshair" }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endStroke}
+        onPointerCancel={endStroke}
+      >
+        {/* only measured; the canvas shows the result */}
+        <img ref={imgRef} src={image} alt="" className="w-full h-full object-contain invisible" draggable={false} onLoad={measure} />
+        <canvas
+          ref={canvasRef}
+          className="absolute pointer-events-none"
+          style={{
+            left: view.left,
+            top: view.top,
+            width: iw * view.scale,
+            height: ih * view.scale,
+            background: background.kind === "none" && !maskOnly ? CHECKERBOARD : undefined,
+          }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <button onClick={() => setBrush("erase")} className={toggleClass(brush === "erase")}>Erase</button>
+        <button onClick={() => setBrush("restore")} className={toggleClass(brush === "restore")}>Restore</button>
+        <label className="flex items-center gap-1 text-xs">
+          Brush
+          <input type="range" min={1} max={20} value={Math.round(brushSize * 100)} onChange={(e) => setBrushSize(Number(e.target.value) / 100)} />
+        </label>
+        <label className="flex items-center gap-1 text-xs">
+          Feather
+          <input type="range" min={0} max={30} value={Math.round(feather * 1000)} onChange={(e) => setFeather(Number(e.target.value) / 1000)} />
+        </label>
+        <button onClick={() => setMaskOnly((v) => !v)} className={toggleClass(maskOnly)}>Mask</button>
+        <button onClick={() => loadMask().catch((err) => console.error("Loading mask failed:", err))} disabled={!painted} className={buttonClass}>
+          Reset mask
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <button onClick={() => setBackground({ kind: "none" })} className={toggleClass(background.kind === "none")}>None</button>
+        {BACKGROUND_COLORS.map((c) => (
+          <button
+            key={c.color}
+            onClick={() => setBackground({ kind: "color", color: c.color })}
+            className={toggleClass(background.kind === "color" && background.color === c.color)}
+          >
+            <span className="inline-block w-3 h-3 mr-1 align-middle rounded-sm border border-gray-500" style={{ background: c.color }} />
+            {c.name}
+          </button>
+        ))}
+        <input
+          type="color"
+          value={background.kind === "color" ? background.color : "#ffffff"}
+          onChange={(e) => setBackground({ kind: "color", color: e.target.value })}
+          className="h-6 w-8"
+          title="Other colour"
+        />
+        <button onClick={() => setBackground({ kind: "blur", radius: DEFAULT_BLUR })} className={toggleClass(background.kind === "blur")}>Blur</button>
+        {background.kind === "blur" && (
+          <input type="range" min={1} max={10} value={Math.round(background.radius * 100)} onChange={(e) => setBackground({ kind: "blur", radius: Number(e.target.value) / 100 })} />
+        )}
+        <button onClick={() => bgInputRef.current?.click()} className={toggleClass(background.kind === "image")}>Image…</button>
+        <input type="file" ref={bgInputRef} accept="image/*" onChange={handleBackgroundFile} className="hidden" />
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-600 rounded">Cancel</button>
+        <button onClick={handleDone} className="px-4 py-2 bg-blue-600 text-white rounded">Apply Cut-out</button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,8 @@
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import Modal from "./Modal";
 import {
   CropIcon,
   AspectRatioIcon,
-  FlipHorizontalIcon,
   RotateIcon,
   CompressIcon,
   EnhanceIcon,
@@ -12,19 +11,74 @@ import {
   BackIcon,
   ImproveQualityIcon,
   UndoIcon,
+  RedoIcon,
+  HistoryIcon,
   SunIcon,
   MoonIcon,
   ImagePlusIcon,
   RemoveBgIcon,
+  ResizeIcon,
+  IdCardIcon,
+  FiltersIcon,
+  ScanIcon,
+  TextIcon,
+  MarkupIcon,
+  RedactIcon,
+  InfoIcon,
+  PrintIcon,
+  StampIcon,
 } from "./icons";
 import { useTheme } from "../hooks/useTheme";
-import { removeBackground } from "../utils/removeBackground";
+import { PipelineSeed, useEditPipeline } from "../hooks/useEditPipeline";
+import { useSessionAutosave } from "../hooks/useSessionAutosave";
+import { useMarkup } from "../hooks/useMarkup";
+import { ResampleQuality } from "../utils/resize";
+import { checkCompliance, DocumentPreset } from "../utils/presets";
+import { centerCropRect, CROP_RATIOS, decodeBlob, editableCutoutIndex, editableLayersIndex, EditOperation, EncodedImage, NormalizedRect, withWatermark } from "../utils/pipeline";
+import { createLayer, ImageLayer } from "../utils/layers";
+import { Cutout } from "../utils/cutout";
+import { canvasToBlob } from "../utils/image";
+import { JobOptions, runJob } from "../utils/jobs";
+import { isCancelled } from "../utils/renderJob";
+import { loadAutoWatermark } from "../utils/watermarkStore";
+import { addHistory, EditRecipe } from "../utils/historyStore";
+import { defaultTone, isIdentityTone, ToneSettings } from "../utils/levels";
+import { EditorSession } from "../utils/session";
+import { buildExifSegment, ExifData, MetadataField, readExifFromBlob } from "../utils/exif";
+import { dataUrlByteSize, insertApp1 } from "../utils/jpeg";
+import { ExportSettings, formatFilename, loadExportSettings, saveExportSettings } from "../utils/export";
+import { encodeSheet, presetPhotoSize, PrintSheetOptions, renderSheet, savePrintSheetOptions, SheetFormat } from "../utils/printSheet";
 import CropTool from "./CropTool";
+import ScanTool from "./ScanTool";
+import TextTool from "./TextTool";
+import MarkupLayer from "./MarkupLayer";
+import MarkupToolbar from "./MarkupToolbar";
+import RedactTool from "./RedactTool";
+import LayersTool from "./LayersTool";
+import CutoutTool from "./CutoutTool";
+import CompressPanel from "./CompressPanel";
+import PresetPanel, { PresetReport } from "./PresetPanel";
+import ResizePanel from "./ResizePanel";
+import HistoryPanel from "./HistoryPanel";
+import StepsPanel from "./StepsPanel";
+import FiltersPanel from "./FiltersPanel";
+import TonePanel from "./TonePanel";
+import RotatePanel from "./RotatePanel";
+import InfoPanel from "./InfoPanel";
+import ExportPanel from "./ExportPanel";
+import PrintSheetPanel from "./PrintSheetPanel";
+import WatermarkPanel from "./WatermarkPanel";
+import UpscalePanel from "./UpscalePanel";
 
 interface EditorScreenProps {
   imageUri: string;
+  // saved original + steps, when re-editing from history
+  initialRecipe?: EditRecipe;
+  // recovered autosave, when resuming an interrupted edit
+  initialSession?: EditorSession;
   onBack: () => void;
-  onSave: (imageUri: string) => void;
+  // called once the edit is in the saved history
+  onSave: () => void;
 }
 type P = PointerEvent & {
   clientX: number;
@@ -33,40 +87,156 @@ type P = PointerEvent & {
 
 type Tool =
   | "crop"
+  | "scan"
+  | "text"
+  | "markup"
+  | "redact"
   | "ratio"
-  | "flip"
+  | "resize"
+  | "upscale"
+  | "rotate"
   | "compress"
   | "enhance"
-  | "import"
+  | "filters"
+  | "layers"
+  | "watermark"
   | "removeBg"
+  | "preset"
+  | "print"
+  | "steps"
+  | "info"
+  | "export"
   | null;
 
-export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenProps) {
+const HISTORY_DEPTH_KEY = "easypix.historyDepth";
+// metadata fields kept in exports; stripping everything is the default
+const EXPORT_METADATA_KEY = "easypix.exportMetadata";
+
+export default function EditorScreen({ imageUri, initialRecipe, initialSession, onBack, onSave }: EditorScreenProps) {
   const { theme, toggleTheme } = useTheme();
   // UI state
-  const [activeTool, setActiveTool] = useState<Tool>(null);
+  // an interrupted layer or levels & curves edit reopens where it was left
+  const savedTone = initialSession?.settings.tone;
+  const restoredTone = !initialSession?.layers && savedTone && !isIdentityTone(savedTone) ? savedTone : null;
+  const [activeTool, setActiveTool] = useState<Tool>(initialSession?.layers ? "layers" : restoredTone ? "enhance" : null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingMessage, setProcessingMessage] = useState("Processing...");
-  const [undoStack, setUndoStack] = useState<string[]>([]);
-  const [currentImageUri, setCurrentImageUri] = useState(imageUri);
+  // 0..1 while a render job reports progress, null when there's nothing to measure
+  const [processingProgress, setProcessingProgress] = useState<number | null>(null);
+  const processingAbort = useRef<AbortController | null>(null);
+
+  // History depth (0 = unlimited) is a user setting
+  const [historyDepth, setHistoryDepth] = useState(() => Number(localStorage.getItem(HISTORY_DEPTH_KEY) ?? 50));
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Non-destructive edit state: original + operations, rendered to previewUri
+  const seed = useMemo<PipelineSeed | undefined>(() => {
+    if (initialSession) return initialSession;
+    if (!initialRecipe) return undefined;
+    return {
+      original: initialRecipe.original,
+      history: [
+        { label: "Original", operations: [] },
+        { label: "Saved edit", operations: initialRecipe.operations },
+      ],
+      cursor: 1,
+    };
+  }, [initialSession, initialRecipe]);
+  const {
+    previewUri,
+    size: imageSize,
+    operations,
+    history,
+    historyCursor,
+    thumbnails,
+    canUndo,
+    canRedo,
+    apply: applyOps,
+    update: updateOp,
+    remove: removeOp,
+    undo: handleUndo,
+    redo: handleRedo,
+    jumpTo,
+    setDraft,
+    renderFull,
+    exportImage,
+    exportFile,
+    original,
+    originalSize,
+  } = useEditPipeline(imageUri, historyDepth, seed);
 
   // Enhancement sliders (live preview)
-  const [brightness, setBrightness] = useState(100);
-  const [contrast, setContrast] = useState(100);
-  const [saturation, setSaturation] = useState(100);
+  const [brightness, setBrightness] = useState(initialSession?.settings.brightness ?? 100);
+  const [contrast, setContrast] = useState(initialSession?.settings.contrast ?? 100);
+  const [saturation, setSaturation] = useState(initialSession?.settings.saturation ?? 100);
+  // index of an earlier adjust operation being edited from the steps panel
+  const [editingAdjust, setEditingAdjust] = useState<number | null>(null);
+  // levels & curves from the advanced section of the Enhance panel, previewed through the pipeline
+  const [tone, setTone] = useState<ToneSettings>(() => restoredTone ?? defaultTone());
+  const [showAdvanced, setShowAdvanced] = useState(!!restoredTone);
 
   // Compression
-  const [compressionQuality, setCompressionQuality] = useState(92);
-
-  // Overlay imported image
-  const [overlay, setOverlay] = useState<{
-    src: string;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    opacity: number;
-  } | null>(null);
+  const [compressionQuality, setCompressionQuality] = useState(initialSession?.settings.compressionQuality ?? 92);
+
+  // Document preset being applied through the crop tool, and its last compliance report
+  const [activePreset, setActivePreset] = useState<DocumentPreset | null>(null);
+  const [presetReport, setPresetReport] = useState<PresetReport | null>(null);
+
+  // live pipeline preview while an earlier adjust step is being edited
+  useEffect(() => {
+    if (editingAdjust === null) return;
+    setDraft(operations.map((op, i) => (i === editingAdjust ? { type: "adjust", brightness, contrast, saturation } : op)));
+  }, [editingAdjust, brightness, contrast, saturation, operations]);
+
+  useEffect(() => {
+    if (editingAdjust !== null) return;
+    setDraft(isIdentityTone(tone) ? null : [...operations, { type: "levels", tone }]);
+  }, [tone, operations, editingAdjust]);
+
+  // EXIF of the original photo, and which of it goes into exports
+  const [exif, setExif] = useState<ExifData | null>(null);
+  const [keepMetadata, setKeepMetadata] = useState<MetadataField[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(EXPORT_METADATA_KEY) ?? "[]");
+    } catch {
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    if (!original) return;
+    readExifFromBlob(original)
+      .then(setExif)
+      .catch((err) => console.error("Failed to read EXIF:", err));
+  }, [original]);
+
+  // Annotation shapes, drawn over the image until they are applied
+  const markup = useMarkup();
+
+  // Layer stack being edited; committed as a "layers" step
+  const [layers, setLayers] = useState<ImageLayer[] | null>(initialSession?.layers ?? null);
+
+  // Autosave everything needed to rebuild this screen after a reload
+  const session = useMemo<EditorSession | null>(
+    () =>
+      original && {
+        original,
+        history: history.map(({ label, operations }) => ({ label, operations })),
+        cursor: historyCursor,
+        settings: { brightness, contrast, saturation, compressionQuality, tone },
+        layers,
+        updatedAt: Date.now(),
+      },
+    [original, history, historyCursor, brightness, contrast, saturation, compressionQuality, tone, layers]
+  );
+  const endSession = useSessionAutosave(session);
+
+  // leaving the editor on purpose, or saving, ends the session; only interrupted edits are
+  // offered for resume
+  const handleBack = () => {
+    endSession();
+    onBack();
+  };
 
   // Refs for DOM
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -160,6 +330,8 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
 
   // On pointer down: track pointer, capture
   const onPointerDown = (e: React.P) => {
+    // the markup layer owns the pointer while it is open
+    if (activeTool === "markup") return;
     (e.target as Element).setPointerCapture?.(e.pointerId);
     pointers.current.set(e.pointerId, e as unknown as PointerEvent);
 
@@ -252,7 +424,7 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
     targetRef.current = { tx: 0, ty: 0, scale: 1 };
     velocityRef.current = { vx: 0, vy: 0 };
     applyTransformToNode();
-  }, [currentImageUri]);
+  }, [previewUri]);
 
   useEffect(() => {
     // cleanup on unmount
@@ -261,173 +433,267 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
     };
   }, []);
 
-  // ---------- Canvas operations ----------
-  const applyCanvasOperations = useCallback(
-    (quality = 0.92) =>
-      new Promise<string>((resolve, reject) => {
-        const img = new Image();
-        img.crossOrigin = "anonymous";
-        img.src = currentImageUri;
-        img.onload = () => {
-          try {
-            // create canvas sized to natural
-            const canvas = document.createElement("canvas");
-            canvas.width = img.naturalWidth;
-            canvas.height = img.naturalHeight;
-            const ctx = canvas.getContext("2d");
-            if (!ctx) throw new Error("No canvas context");
-            ctx.filter = `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)`;
-            ctx.drawImage(img, 0, 0);
-            resolve(canvas.toDataURL("image/jpeg", quality));
-          } catch (err) {
-            reject(err);
-          }
-        };
-        img.onerror = (err) => reject(err);
-      }),
-    [currentImageUri, brightness, contrast, saturation]
-  );
-
-  const pushUndo = (uri: string) => setUndoStack((s) => [uri, ...s.slice(0, 9)]);
-
-  const handleSave = async () => {
+  // ---------- Edit pipeline ----------
+  // Run a long task behind the processing overlay. The task passes `job` to its render jobs
+  // so they report progress and stop when the overlay's Cancel is pressed.
+  const runProcessing = async (message: string, task: (job: JobOptions) => Promise<void>, failMessage = "Something went wrong") => {
+    const controller = new AbortController();
+    processingAbort.current = controller;
     setIsProcessing(true);
-    setProcessingMessage("Saving...");
+    setProcessingMessage(message);
+    setProcessingProgress(null);
     try {
-      const finalImage = await applyCanvasOperations();
-      pushUndo(currentImageUri);
-      setCurrentImageUri(finalImage);
-      onSave(finalImage);
-    } catch (e) {
-      console.error(e);
-      alert("Error saving image");
+      await task({ signal: controller.signal, onProgress: setProcessingProgress });
+    } catch (err) {
+      if (!isCancelled(err)) {
+        console.error(err);
+        alert(failMessage);
+      }
     } finally {
+      processingAbort.current = null;
       setIsProcessing(false);
       setProcessingMessage("Processing...");
+      setProcessingProgress(null);
     }
   };
 
-  const handleExport = async () => {
-    setIsProcessing(true);
-    setProcessingMessage("Exporting...");
-    try {
-      const finalImage = await applyCanvasOperations();
-      const blob = await (await fetch(finalImage)).blob();
-      const file = new File([blob], `EasyPix_${Date.now()}.jpg`, { type: "image/jpeg" });
-      if ((navigator as any).share) {
-        await (navigator as any).share({ files: [file], title: "Edited with EasyPix" });
-      } else {
-        const a = document.createElement("a");
-        a.href = finalImage;
-        a.download = file.name;
-        document.body.appendChild(a);
-        a.click();
-        a.remove();
-      }
-    } catch (err) {
-      console.error(err);
-      alert("Export failed");
-    } finally {
-      setIsProcessing(false);
-      setProcessingMessage("Processing...");
+  // a new stage of a task, whose progress starts over
+  const setProcessingStage = (message: string) => {
+    setProcessingMessage(message);
+    setProcessingProgress(null);
+  };
+
+  // enhance sliders and levels & curves that are being previewed but not applied yet still
+  // go into save/export, in the order Apply would add them
+  const withPendingAdjust = (ops: EditOperation[] = operations): EditOperation[] => {
+    if (editingAdjust !== null) return ops;
+    const pending: EditOperation[] = [];
+    if (!isIdentityTone(tone)) pending.push({ type: "levels", tone });
+    if (brightness !== 100 || contrast !== 100 || saturation !== 100) pending.push({ type: "adjust", brightness, contrast, saturation });
+    return pending.length > 0 ? [...ops, ...pending] : ops;
+  };
+
+  const resetEnhancements = () => {
+    setBrightness(100);
+    setContrast(100);
+    setSaturation(100);
+  };
+
+  // Redacted images are checked before they leave the editor. Returns false (after telling
+  // the user) if detail under a redaction survived; the image must not be used then.
+  const checkRedactions = async (ops: EditOperation[], image: Blob, area?: NormalizedRect, job?: JobOptions) => {
+    if (!original || !ops.some((op) => op.type === "redact")) return true;
+    setProcessingStage("Verifying redaction...");
+    const check = await runJob({ type: "verify", original, ops, exported: image, area }, job);
+    if (!check.passed) {
+      alert("The redacted areas still show some of the original detail, so the image was not saved. Try Pixelate or Black box, or a larger region.");
     }
+    return check.passed;
   };
 
-  const handleUndo = () => {
-    const [latest, ...rest] = undoStack;
-    if (latest) {
-      setCurrentImageUri(latest);
-      setUndoStack(rest);
+  const handleSave = () =>
+    runProcessing("Saving...", async (job) => {
+      const ops = withPendingAdjust();
+      // the automatic watermark goes on the saved file and its recipe, not into the open edit
+      const output = withWatermark(ops, await loadAutoWatermark());
+      const { dataUrl } = await exportImage(output, job);
+      const image = await (await fetch(dataUrl)).blob();
+      if (!(await checkRedactions(output, image, undefined, job))) return;
+      if (ops !== operations) {
+        applyOps(ops.slice(operations.length));
+        resetEnhancements();
+        setTone(defaultTone());
+      }
+      // a recipe keeps the original; redacted edits are stored flattened so it can't be recovered
+      const redacted = ops.some((op) => op.type === "redact");
+      const { evicted } = await addHistory({ image, recipe: original && !redacted ? { original, operations: output } : null });
+      if (evicted > 0) alert(`Storage was full, so the ${evicted} oldest saved edit(s) were removed.`);
+      endSession();
+      onSave();
+    }, "Error saving image");
+
+  const shareOrDownload = async (dataUrl: string, filename: string) => {
+    const blob = await (await fetch(dataUrl)).blob();
+    const file = new File([blob], filename, { type: blob.type || "image/jpeg" });
+    // some browsers can share text but not files; those download instead
+    if (navigator.share && navigator.canShare?.({ files: [file] })) {
+      await navigator.share({ files: [file], title: "Edited with EasyPix" });
+    } else {
+      const a = document.createElement("a");
+      a.href = dataUrl;
+      a.download = file.name;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
     }
   };
 
+  // Exports are re-encoded from pixels, so they carry no metadata unless fields were chosen
+  // to be kept. Returns null if the user backs out of sharing their location.
+  const withMetadata = (dataUrl: string, ops: EditOperation[]) => {
+    // only JPEG exports carry EXIF
+    if (!exif || keepMetadata.length === 0 || !dataUrl.startsWith("data:image/jpeg")) return dataUrl;
+    if (keepMetadata.includes("gps") && exif.gps && !window.confirm("This export includes the GPS location where the photo was taken. Export anyway?")) return null;
+    const segment = buildExifSegment(exif, keepMetadata);
+    if (!segment) return dataUrl;
+    const output = insertApp1(dataUrl, segment);
+    // a size limit from Compress wins over metadata
+    const limit = [...ops].reverse().find((op): op is Extract<EditOperation, { type: "compress" }> => op.type === "compress")?.maxKB;
+    return limit && dataUrlByteSize(output) > limit * 1024 ? dataUrl : output;
+  };
+
+  const handleExport = (settings: ExportSettings) => {
+    saveExportSettings(settings);
+    setActiveTool(null);
+    return runProcessing("Exporting...", async (job) => {
+      const ops = withWatermark(withPendingAdjust(), await loadAutoWatermark());
+      const { dataUrl, width, height, mimeType, pageImage, pageArea } = await exportFile(settings, ops, job);
+      const redactions = ops.reduce((n, op) => n + (op.type === "redact" ? op.regions.length : 0), 0);
+      if (redactions && !(await checkRedactions(ops, await (await fetch(pageImage ?? dataUrl)).blob(), pageArea, job))) return;
+      const output = withMetadata(dataUrl, ops);
+      if (output === null) return;
+      await shareOrDownload(output, formatFilename(settings.filename, { width, height }, mimeType));
+      if (redactions) {
+        const stripped = output === dataUrl ? ", and it carries no camera or location data" : "";
+        alert(`Redaction verified: none of the original detail under the ${redactions} redacted area(s) is in the exported image${stripped}.`);
+      }
+    }, "Export failed");
+  };
+
+  // --------- Print sheet ----------
+  const handlePrintSheet = (options: PrintSheetOptions, format: SheetFormat) => {
+    savePrintSheetOptions(options);
+    setActiveTool(null);
+    return runProcessing("Laying out sheet...", async (job) => {
+      const ops = withWatermark(withPendingAdjust(), await loadAutoWatermark());
+      const photo = await renderFull(ops, job);
+      // every copy on the sheet is this render, so it is what gets verified
+      if (ops.some((op) => op.type === "redact") && !(await checkRedactions(ops, await canvasToBlob(photo, "image/png"), undefined, job))) return;
+      setProcessingStage("Laying out sheet...");
+      const sheet = renderSheet(photo, options);
+      const { dataUrl, mimeType } = await encodeSheet(sheet, options, format);
+      await shareOrDownload(dataUrl, formatFilename(`${loadExportSettings().filename}_sheet`, sheet, mimeType));
+    }, "Print sheet failed");
+  };
+
+  // --------- Resize ----------
+  const handleResize = (width: number, height: number, quality: ResampleQuality) => {
+    applyOps({ type: "resize", width, height, quality });
+    setActiveTool(null);
+  };
+
+  // --------- Compress ----------
+  const handleCompressToTarget = async (maxKB: number, minKB: number) => {
+    // pending enhancements are committed with the compress step, so the size found is the one applied
+    const ops: EditOperation[] = [...withPendingAdjust(), { type: "compress", maxKB, minKB }];
+    let result: EncodedImage | null = null;
+    await runProcessing(`Compressing under ${maxKB} KB...`, async (job) => {
+      result = await exportImage(ops, job);
+      applyOps(ops.slice(operations.length));
+      resetEnhancements();
+      setTone(defaultTone());
+    }, "Compress failed");
+    return result;
+  };
+
+  // --------- Document presets ----------
+  // crop -> exact pixel size -> size window + DPI header, then report compliance of the export
+  const handlePresetCrop = (rect: NormalizedRect, preset: DocumentPreset) =>
+    runProcessing(`Formatting for ${preset.name}...`, async (job) => {
+      const presetOps: EditOperation[] = [
+        { type: "crop", rect },
+        { type: "resize", width: preset.widthPx, height: preset.heightPx, quality: "high" },
+        { type: "compress", maxKB: preset.maxKB, minKB: preset.minKB, dpi: preset.dpi },
+      ];
+      applyOps(presetOps, `Preset: ${preset.name}`);
+      setActivePreset(null);
+      const result = await exportImage(withPendingAdjust([...operations, ...presetOps]), job);
+      const issues = await checkCompliance(preset, result.dataUrl, result.width, result.height);
+      setPresetReport({ preset, issues, width: result.width, height: result.height, bytes: result.bytes });
+      setActiveTool("preset");
+    }, "Preset export failed");
+
+  const handlePresetCheck = (preset: DocumentPreset) =>
+    runProcessing("Checking...", async (job) => {
+      const result = await exportImage(withPendingAdjust(), job);
+      const issues = await checkCompliance(preset, result.dataUrl, result.width, result.height);
+      setPresetReport({ preset, issues, width: result.width, height: result.height, bytes: result.bytes });
+    }, "Check failed");
+
   // --------- Remove background ----------
-  const handleBackgroundRemove = async () => {
-    setIsProcessing(true);
-    setProcessingMessage("Removing background...");
-    try {
-      const result = await removeBackground(currentImageUri);
-      pushUndo(currentImageUri);
-      setCurrentImageUri(result);
-    } catch (err) {
-      console.error("BG remove failed:", err);
-      alert("Background removal failed.");
-    } finally {
-      setIsProcessing(false);
-      setProcessingMessage("Processing...");
-    }
+  // only the model's mask is kept, so the cut-out can be touched up and given a new background
+  const handleBackgroundRemove = () =>
+    runProcessing("Removing background...", async ({ signal }) => {
+      if (!original) return;
+      // no progress: the model doesn't report any
+      const mask = await runJob({ type: "removeBackground", original, ops: operations }, { signal });
+      applyOps({ type: "cutout", cutout: { mask, background: { kind: "none" }, feather: 0 } });
+      setActiveTool("removeBg");
+    }, "Background removal failed.");
+
+  const cutoutIndex = editableCutoutIndex(operations);
+  const cutoutOp = operations[cutoutIndex];
+  const committedCutout = cutoutOp?.type === "cutout" ? cutoutOp.cutout : null;
+
+  // like layers, the preview shows the image without the cut-out while it is refined
+  useEffect(() => {
+    if (activeTool !== "removeBg" || cutoutIndex < 0) return;
+    setDraft(operations.filter((_, i) => i !== cutoutIndex));
+    return () => setDraft(null);
+  }, [activeTool, cutoutIndex, operations]);
+
+  const handleApplyCutout = (cutout: Cutout) => {
+    const changed = cutout.mask !== committedCutout?.mask || cutout.feather !== committedCutout.feather || cutout.background !== committedCutout.background;
+    if (cutoutIndex >= 0 && changed) updateOp(cutoutIndex, { type: "cutout", cutout });
+    setActiveTool(null);
   };
 
-  // --------- Import overlay file ----------
+  // --------- Layers ----------
   const importRef = useRef<HTMLInputElement | null>(null);
   const handleImportClick = () => importRef.current?.click();
+  const layersIndex = editableLayersIndex(operations);
+  const committedLayers = () => {
+    const op = operations[layersIndex];
+    return op?.type === "layers" ? op.layers : [];
+  };
 
-  const handleImageImport = (ev: React.ChangeEvent<HTMLInputElement>) => {
-    const f = ev.target.files?.[0];
-    if (!f) return;
-    const rdr = new FileReader();
-    rdr.onload = () => {
-      const src = String(rdr.result);
-      // place overlay centered at smaller size
-      const container = containerRef.current;
-      if (!container) {
-        setOverlay({ src, x: 20, y: 20, width: 200, height: 200, opacity: 1 });
-      } else {
-        const w = container.clientWidth;
-        const h = container.clientHeight;
-        const width = Math.min(240, w * 0.5);
-        const aspect = 1;
-        setOverlay({
-          src,
-          x: (w - width) / 2,
-          y: (h - width * aspect) / 2,
-          width,
-          height: width * aspect,
-          opacity: 1,
-        });
-      }
-    };
-    rdr.readAsDataURL(f);
-    if (ev.target) ev.target.value = "";
-    setActiveTool("import");
+  // while the stack is edited the preview shows the image without it, and the tool draws the layers
+  useEffect(() => {
+    if (activeTool !== "layers" || layersIndex < 0) return;
+    setDraft(operations.filter((_, i) => i !== layersIndex));
+    return () => setDraft(null);
+  }, [activeTool, layersIndex, operations]);
+
+  const openLayers = () => {
+    setLayers(committedLayers());
+    setActiveTool("layers");
   };
 
-  const handleApplyOverlay = async () => {
-    if (!overlay) return;
-    setIsProcessing(true);
-    setProcessingMessage("Applying overlay...");
+  const handleImageImport = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const f = ev.target.files?.[0];
+    ev.target.value = "";
+    if (!f) return;
     try {
-      const main = new Image();
-      main.crossOrigin = "anonymous";
-      main.src = currentImageUri;
-      await new Promise((r) => (main.onload = r));
-      const ov = new Image();
-      ov.crossOrigin = "anonymous";
-      ov.src = overlay.src;
-      await new Promise((r) => (ov.onload = r));
-      const canvas = document.createElement("canvas");
-      canvas.width = main.naturalWidth;
-      canvas.height = main.naturalHeight;
-      const ctx = canvas.getContext("2d")!;
-      ctx.drawImage(main, 0, 0);
-      // scale overlay proportions from container to natural size
-      const container = containerRef.current!;
-      const scaleX = main.naturalWidth / container.clientWidth;
-      const scaleY = main.naturalHeight / container.clientHeight;
-      ctx.globalAlpha = overlay.opacity;
-      ctx.drawImage(ov, overlay.x * scaleX, overlay.y * scaleY, overlay.width * scaleX, overlay.height * scaleY);
-      const newUri = canvas.toDataURL("image/png");
-      pushUndo(currentImageUri);
-      setCurrentImageUri(newUri);
-      setOverlay(null);
-      setActiveTool(null);
+      const bitmap = await decodeBlob(f);
+      const layer = createLayer(f, f.name.replace(/\.[^.]+$/, "") || "Image", bitmap, imageSize);
+      setLayers((l) => [...(l ?? committedLayers()), layer]);
+      setActiveTool("layers");
     } catch (err) {
-      console.error(err);
-      alert("Apply overlay failed");
-    } finally {
-      setIsProcessing(false);
-      setProcessingMessage("Processing...");
+      console.error("Import failed:", err);
+      alert("That file couldn't be opened as an image.");
+    }
+  };
+
+  const handleApplyLayers = () => {
+    const stack = layers ?? [];
+    if (layersIndex >= 0) {
+      if (stack.length === 0) removeOp(layersIndex);
+      else if (stack !== committedLayers()) updateOp(layersIndex, { type: "layers", layers: stack });
+    } else if (stack.length > 0) {
+      applyOps({ type: "layers", layers: stack });
     }
+    setLayers(null);
+    setActiveTool(null);
   };
 
   // ---------- nice UI helpers ----------
@@ -442,86 +708,57 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
   // ---------- Render ----------
   const tools = [
     { name: "Crop", icon: CropIcon, tool: "crop" as Tool, handler: () => setActiveTool("crop") },
+    { name: "Scan", icon: ScanIcon, tool: "scan" as Tool, handler: () => setActiveTool("scan") },
     { name: "Ratio", icon: AspectRatioIcon, tool: "ratio" as Tool, handler: () => setActiveTool("ratio") },
-    { name: "Flip", icon: FlipHorizontalIcon, tool: "flip" as Tool, handler: () => setActiveTool("flip") },
+    { name: "Resize", icon: ResizeIcon, tool: "resize" as Tool, handler: () => setActiveTool("resize") },
+    { name: "Presets", icon: IdCardIcon, tool: "preset" as Tool, handler: () => { setPresetReport(null); setActiveTool("preset"); } },
+    { name: "Print", icon: PrintIcon, tool: "print" as Tool, handler: () => setActiveTool("print") },
+    { name: "Rotate", icon: RotateIcon, tool: "rotate" as Tool, handler: () => setActiveTool("rotate") },
     { name: "Compress", icon: CompressIcon, tool: "compress" as Tool, handler: () => setActiveTool("compress") },
     { name: "Enhance", icon: EnhanceIcon, tool: "enhance" as Tool, handler: () => setActiveTool("enhance") },
-    { name: "Quality", icon: ImproveQualityIcon, tool: null, handler: async () => {
-      setIsProcessing(true);
-      setProcessingMessage("Improving quality...");
-      try {
-        const img = new Image();
-        img.crossOrigin = "anonymous";
-        img.src = currentImageUri;
-        await new Promise((r) => (img.onload = r));
-        const canvas = document.createElement("canvas");
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        const ctx = canvas.getContext("2d")!;
-        ctx.filter = "brightness(105%) contrast(105%) saturate(102%)";
-        ctx.drawImage(img, 0, 0);
-        const newUri = canvas.toDataURL("image/jpeg", 0.95);
-        pushUndo(currentImageUri);
-        setCurrentImageUri(newUri);
-      } catch (e) {
-        console.error(e);
-        alert("Improve failed");
-      } finally {
-        setIsProcessing(false);
-        setProcessingMessage("Processing...");
-      }
-    }},
-    { name: "Import", icon: ImagePlusIcon, tool: "import" as Tool, handler: handleImportClick },
-    { name: "Remove BG", icon: RemoveBgIcon, tool: "removeBg" as Tool, handler: handleBackgroundRemove },
+    { name: "Filters", icon: FiltersIcon, tool: "filters" as Tool, handler: () => setActiveTool("filters") },
+    { name: "Quality", icon: ImproveQualityIcon, tool: "upscale" as Tool, handler: () => setActiveTool("upscale") },
+    { name: "Text", icon: TextIcon, tool: "text" as Tool, handler: () => setActiveTool("text") },
+    { name: "Redact", icon: RedactIcon, tool: "redact" as Tool, handler: () => setActiveTool("redact") },
+    { name: "Watermark", icon: StampIcon, tool: "watermark" as Tool, handler: () => setActiveTool("watermark") },
+    { name: "Markup", icon: MarkupIcon, tool: "markup" as Tool, handler: () => { markup.reset(); setActiveTool("markup"); } },
+    // with no stack to reopen, go straight to picking an image
+    { name: "Layers", icon: ImagePlusIcon, tool: "layers" as Tool, handler: () => (layersIndex >= 0 ? openLayers() : handleImportClick()) },
+    // a cut-out that still lines up reopens for touching up instead of running the model again
+    { name: "Remove BG", icon: RemoveBgIcon, tool: "removeBg" as Tool, handler: () => (cutoutIndex >= 0 ? setActiveTool("removeBg") : handleBackgroundRemove()) },
   ];
 
-  // Tool modal rendering (ratio, flip, compress, enhance)
+  const closeToolModal = () => {
+    if (editingAdjust !== null) {
+      // abandon the edit of an earlier step
+      setEditingAdjust(null);
+      setDraft(null);
+      resetEnhancements();
+    }
+    if (activeTool === "filters" || activeTool === "rotate") setDraft(null);
+    if (activeTool === "enhance") setTone(defaultTone());
+    setActiveTool(null);
+  };
+
+  // crop, scan, text, redact, markup and layers work on the image itself and show their controls in the footer
+  const isFooterTool =
+    activeTool === "crop" || activeTool === "scan" || activeTool === "text" || activeTool === "redact" || activeTool === "markup" || activeTool === "layers" || activeTool === "removeBg";
+
+  // Tool modal rendering (ratio, resize, preset, rotate, compress, enhance, filters, steps, info, export)
   const renderToolModal = () => {
-    if (!activeTool || activeTool === "crop" || activeTool === "import") return null;
+    if (!activeTool || isFooterTool) return null;
     let content: React.ReactNode = null;
     if (activeTool === "ratio") {
-      const ratios = [
-        { name: "1:1", w: 1, h: 1 },
-        { name: "4:3", w: 4, h: 3 },
-        { name: "16:9", w: 16, h: 9 },
-        { name: "3:4", w: 3, h: 4 },
-        { name: "9:16", w: 9, h: 16 },
-      ];
       content = (
         <div>
           <h3 className="text-lg font-bold mb-4">Aspect Ratio Crop</h3>
           <div className="grid grid-cols-3 gap-2">
-            {ratios.map((r) => (
+            {CROP_RATIOS.map((r) => (
               <button
                 key={r.name}
                 onClick={() => {
-                  // apply ratio crop quickly
-                  const img = new Image();
-                  img.src = currentImageUri;
-                  img.onload = () => {
-                    const canvas = document.createElement("canvas");
-                    const targetRatio = r.w / r.h;
-                    let srcW = img.naturalWidth,
-                      srcH = img.naturalHeight,
-                      sx = 0,
-                      sy = 0;
-                    const imgRatio = srcW / srcH;
-                    if (imgRatio > targetRatio) {
-                      // crop width
-                      srcW = Math.round(srcH * targetRatio);
-                      sx = Math.round((img.naturalWidth - srcW) / 2);
-                    } else {
-                      srcH = Math.round(srcW / targetRatio);
-                      sy = Math.round((img.naturalHeight - srcH) / 2);
-                    }
-                    canvas.width = srcW;
-                    canvas.height = srcH;
-                    const ctx = canvas.getContext("2d")!;
-                    ctx.drawImage(img, sx, sy, srcW, srcH, 0, 0, srcW, srcH);
-                    pushUndo(currentImageUri);
-                    setCurrentImageUri(canvas.toDataURL("image/png"));
-                    setActiveTool(null);
-                  };
+                  applyOps({ type: "crop", rect: centerCropRect(imageSize.width, imageSize.height, r.w / r.h) }, `Crop ${r.name}`);
+                  setActiveTool(null);
                 }}
                 className="p-2 border rounded hover:bg-gray-100 dark:border-gray-600 dark:hover:bg-gray-700"
               >
@@ -531,95 +768,63 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
           </div>
         </div>
       );
-    } else if (activeTool === "flip") {
+    } else if (activeTool === "resize") {
       content = (
-        <div>
-          <h3 className="text-lg font-bold mb-4">Flip & Rotate</h3>
-          <div className="flex justify-around">
-            <button
-              onClick={() => {
-                // flip horizontally by toggling scaleX in transform
-                targetRef.current.tx -= 0; // no-op but keep loop alive
-                // flip by canvas apply
-                const img = new Image();
-                img.src = currentImageUri;
-                img.onload = () => {
-                  const canvas = document.createElement("canvas");
-                  canvas.width = img.naturalWidth;
-                  canvas.height = img.naturalHeight;
-                  const ctx = canvas.getContext("2d")!;
-                  ctx.translate(canvas.width, 0);
-                  ctx.scale(-1, 1);
-                  ctx.drawImage(img, 0, 0);
-                  pushUndo(currentImageUri);
-                  setCurrentImageUri(canvas.toDataURL("image/png"));
-                  setActiveTool(null);
-                };
-              }}
-              className="p-2 border rounded"
-            >
-              Flip H
-            </button>
-            <button
-              onClick={() => {
-                const img = new Image();
-                img.src = currentImageUri;
-                img.onload = () => {
-                  const canvas = document.createElement("canvas");
-                  canvas.width = img.naturalHeight;
-                  canvas.height = img.naturalWidth;
-                  const ctx = canvas.getContext("2d")!;
-                  ctx.translate(canvas.width, 0);
-                  ctx.rotate((90 * Math.PI) / 180);
-                  ctx.drawImage(img, 0, 0);
-                  pushUndo(currentImageUri);
-                  setCurrentImageUri(canvas.toDataURL("image/png"));
-                  setActiveTool(null);
-                };
-              }}
-              className="p-2 border rounded"
-            >
-              Rotate 90°
-            </button>
-          </div>
-        </div>
+        <ResizePanel
+          naturalWidth={imageSize.width || 1}
+          naturalHeight={imageSize.height || 1}
+          onApply={handleResize}
+        />
+      );
+    } else if (activeTool === "preset") {
+      content = (
+        <PresetPanel
+          report={presetReport}
+          onStart={(preset) => {
+            setActivePreset(preset);
+            setActiveTool("crop");
+          }}
+          onCheck={handlePresetCheck}
+          // presets are JPEG at an exact pixel size
+          onExport={() => handleExport({ ...loadExportSettings(), format: "jpeg", maxDimension: null })}
+          onPrint={() => setActiveTool("print")}
+          onDone={() => {
+            setPresetReport(null);
+            setActiveTool(null);
+          }}
+        />
+      );
+    } else if (activeTool === "rotate") {
+      content = (
+        <RotatePanel
+          previewUri={previewUri}
+          onRotate={(degrees) => {
+            applyOps({ type: "rotate", degrees });
+            setActiveTool(null);
+          }}
+          onFlip={(axis) => {
+            applyOps({ type: "flip", axis });
+            setActiveTool(null);
+          }}
+          onStraightenChange={(angle) => setDraft(angle ? [...operations, { type: "straighten", angle }] : null)}
+          onStraighten={(angle) => {
+            applyOps({ type: "straighten", angle });
+            setActiveTool(null);
+          }}
+        />
       );
     } else if (activeTool === "compress") {
       content = (
-        <div>
-          <h3 className="text-lg font-bold mb-4">Compress Image</h3>
-          <p className="text-sm mb-2">Quality: {compressionQuality}</p>
-          <input
-            type="range"
-            min={1}
-            max={100}
-            value={compressionQuality}
-            onChange={(e) => setCompressionQuality(parseInt(e.target.value))}
-            className="w-full"
-          />
-          <div className="mt-4">
-            <button
-              onClick={async () => {
-                setIsProcessing(true);
-                setProcessingMessage("Compressing...");
-                try {
-                  const newData = await applyCanvasOperations(compressionQuality / 100);
-                  pushUndo(currentImageUri);
-                  setCurrentImageUri(newData);
-                  setActiveTool(null);
-                } catch (e) {
-                  console.error(e);
-                  alert("Compress failed");
-                } finally {
-                  setIsProcessing(false);
-                }
-              }}
-              className="w-full bg-blue-500 text-white p-2 rounded"
-            >
-              Apply
-            </button>
-          </div>
-        </div>
+        <CompressPanel
+          quality={compressionQuality}
+          onQualityChange={setCompressionQuality}
+          onApplyQuality={() => {
+            applyOps({ type: "compress", quality: compressionQuality });
+            setActiveTool(null);
+          }}
+          onApplyTarget={handleCompressToTarget}
+          onDone={() => setActiveTool(null)}
+        />
       );
     } else if (activeTool === "enhance") {
       // live preview sliders already bound to canvas rendering via filter CSS
@@ -630,7 +835,7 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
             PointerEvent: activeTool === "enhance" ? "auto" : "none",
         }}
         >
-          <h3 className="text-lg font-bold">Enhance (live preview)</h3>
+          <h3 className="text-lg font-bold">{editingAdjust !== null ? "Edit Enhance step" : "Enhance (live preview)"}</h3>
           <div>
             <label className="text-sm">Brightness: {brightness}</label>
             <input type="range" min={0} max={200} value={brightness} onChange={(e) => setBrightness(Number(e.target.value))} />
@@ -643,23 +848,34 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
             <label className="text-sm">Saturation: {saturation}</label>
             <input type="range" min={0} max={200} value={saturation} onChange={(e) => setSaturation(Number(e.target.value))} />
           </div>
+          {editingAdjust === null && (
+            <div>
+              <button onClick={() => setShowAdvanced((v) => !v)} className="text-sm text-blue-400 mb-2">
+                {showAdvanced ? "Hide" : "Show"} levels & curves
+              </button>
+              {showAdvanced && (
+                <div className="max-h-80 overflow-y-auto">
+                  <TonePanel source={previewUri} value={tone} onChange={setTone} />
+                </div>
+              )}
+            </div>
+          )}
           <div>
             <button
               className="w-full bg-blue-500 text-white p-2 rounded"
-              onClick={async () => {
-                setIsProcessing(true);
-                setProcessingMessage("Applying enhancements...");
-                try {
-                  const newImg = await applyCanvasOperations();
-                  pushUndo(currentImageUri);
-                  setCurrentImageUri(newImg);
-                  setActiveTool(null);
-                } catch (err) {
-                  console.error(err);
-                  alert("Apply failed");
-                } finally {
-                  setIsProcessing(false);
+              onClick={() => {
+                const op: EditOperation = { type: "adjust", brightness, contrast, saturation };
+                if (editingAdjust !== null) updateOp(editingAdjust, op);
+                else if (isIdentityTone(tone)) applyOps(op);
+                else {
+                  // the sliders preview on top of the tone-adjusted image, so they go after it
+                  const untouched = brightness === 100 && contrast === 100 && saturation === 100;
+                  applyOps(untouched ? { type: "levels", tone } : [{ type: "levels", tone }, op]);
                 }
+                setEditingAdjust(null);
+                resetEnhancements();
+                setTone(defaultTone());
+                setActiveTool(null);
               }}
             >
               Apply Enhancements
@@ -667,9 +883,85 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
           </div>
         </div>
       );
+    } else if (activeTool === "filters") {
+      content = (
+        <FiltersPanel
+          source={previewUri}
+          imageWidth={imageSize.width}
+          imageHeight={imageSize.height}
+          onChange={(filter, intensity) => setDraft(filter ? [...operations, { type: "filter", filter, intensity }] : null)}
+          onApply={(filter, intensity) => {
+            applyOps({ type: "filter", filter, intensity });
+            setActiveTool(null);
+          }}
+        />
+      );
+    } else if (activeTool === "info") {
+      content = (
+        <InfoPanel
+          exif={exif}
+          fileSize={original?.size ?? 0}
+          originalSize={originalSize}
+          outputSize={imageSize}
+          keep={keepMetadata}
+          onKeepChange={(keep) => {
+            localStorage.setItem(EXPORT_METADATA_KEY, JSON.stringify(keep));
+            setKeepMetadata(keep);
+          }}
+        />
+      );
+    } else if (activeTool === "export") {
+      const compressStep = [...withPendingAdjust()].reverse().find((op): op is Extract<EditOperation, { type: "compress" }> => op.type === "compress");
+      content = <ExportPanel previewUri={previewUri} size={imageSize} compressStep={compressStep ?? null} onExport={handleExport} />;
+    } else if (activeTool === "print") {
+      content = (
+        <PrintSheetPanel
+          previewUri={previewUri}
+          size={imageSize}
+          presetSize={presetReport ? presetPhotoSize(presetReport.preset) : null}
+          onSave={handlePrintSheet}
+        />
+      );
+    } else if (activeTool === "upscale") {
+      content = (
+        <UpscalePanel
+          previewUri={previewUri}
+          size={imageSize}
+          onApply={(factor, sharpen) => {
+            applyOps({ type: "upscale", factor, sharpen });
+            setActiveTool(null);
+          }}
+        />
+      );
+    } else if (activeTool === "watermark") {
+      content = (
+        <WatermarkPanel
+          previewUri={previewUri}
+          onApply={(template) => {
+            applyOps({ type: "watermark", template });
+            setActiveTool(null);
+          }}
+        />
+      );
+    } else if (activeTool === "steps") {
+      content = (
+        <StepsPanel
+          operations={operations}
+          onRemove={removeOp}
+          onEditAdjust={(index) => {
+            const op = operations[index];
+            if (op.type !== "adjust") return;
+            setBrightness(op.brightness);
+            setContrast(op.contrast);
+            setSaturation(op.saturation);
+            setEditingAdjust(index);
+            setActiveTool("enhance");
+          }}
+        />
+      );
     }
 
-    return <Modal isOpen={!!activeTool && activeTool !== "crop" && activeTool !== "import"} onClose={() => setActiveTool(null)}>{content}</Modal>;
+    return <Modal isOpen={!!activeTool && !isFooterTool} onClose={closeToolModal}>{content}</Modal>;
   };
 
   // ---------- RENDER ----------
@@ -682,19 +974,36 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
               <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" opacity="0.25" />
               <path d="M4 12a8 8 0 018-8" stroke="currentColor" strokeWidth="4" fill="none" />
             </svg>
-            <div>{processingMessage}</div>
+            <div className="flex flex-col gap-1">
+              <div>
+                {processingMessage}
+                {processingProgress !== null && ` ${Math.round(processingProgress * 100)}%`}
+              </div>
+              {processingProgress !== null && (
+                <div className="h-1 w-40 rounded bg-gray-600 overflow-hidden">
+                  <div className="h-full bg-blue-500" style={{ width: `${processingProgress * 100}%` }} />
+                </div>
+              )}
+            </div>
+            <button onClick={() => processingAbort.current?.abort()} className="px-3 py-1 text-sm rounded bg-gray-700 hover:bg-gray-600">
+              Cancel
+            </button>
           </div>
         </div>
       )}
 
       <header className="flex items-center justify-between p-3 bg-gray-800/80 backdrop-blur sticky top-0 z-20">
         <div className="flex items-center gap-2">
-          <button onClick={onBack} className="p-2 rounded hover:bg-gray-700"><BackIcon /></button>
-          <button onClick={handleUndo} className="p-2 rounded hover:bg-gray-700" title="Undo" disabled={undoStack.length === 0}><UndoIcon /></button>
+          <button onClick={handleBack} className="p-2 rounded hover:bg-gray-700"><BackIcon /></button>
+          <button onClick={handleUndo} className="p-2 rounded hover:bg-gray-700" title="Undo" disabled={!canUndo}><UndoIcon /></button>
+          <button onClick={handleRedo} className="p-2 rounded hover:bg-gray-700" title="Redo" disabled={!canRedo}><RedoIcon /></button>
+          <button onClick={() => setShowHistory((v) => !v)} className={`p-2 rounded hover:bg-gray-700 ${showHistory ? "bg-gray-700" : ""}`} title="History"><HistoryIcon /></button>
+          <button onClick={() => setActiveTool("steps")} className="px-2 py-1 text-sm rounded hover:bg-gray-700" title="Edit steps" disabled={operations.length === 0}>Steps</button>
         </div>
         <div className="text-lg font-bold">EasyPix Editor</div>
         <div className="flex items-center gap-2">
-          <button onClick={handleExport} className="p-2 rounded hover:bg-gray-700" title="Export"><ShareIcon /></button>
+          <button onClick={() => setActiveTool("info")} className="p-2 rounded hover:bg-gray-700" title="Photo info"><InfoIcon /></button>
+          <button onClick={() => setActiveTool("export")} className="p-2 rounded hover:bg-gray-700" title="Export"><ShareIcon /></button>
           <button onClick={handleSave} className="p-2 rounded hover:bg-gray-700" title="Save"><SaveIcon /></button>
           <button onClick={toggleTheme} className="p-2 rounded hover:bg-gray-700">{theme === "light" ? <MoonIcon /> : <SunIcon />}</button>
         </div>
@@ -708,59 +1017,41 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
       >
         <img
           ref={imgRef}
-          src={currentImageUri}
+          src={previewUri}
           alt="editable"
           className="max-w-full max-h-full object-contain transition-transform duration-75 ease-out"
           style={{
             // live preview for enhance tool using CSS filter to avoid costly re-render
-            filter: `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)`,
+            // (editing an earlier step previews through the pipeline instead)
+            filter: editingAdjust === null ? `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)` : undefined,
             willChange: "transform",
             touchAction: "none", // critical for pointer gestures
           }}
           draggable={false}
         />
 
-        {/* overlay interactive box (imported image) */}
-        {overlay && (
-          <div
-            className="absolute border border-dashed border-green-400 bg-black/0"
-            style={{
-              left: overlay.x,
-              top: overlay.y,
-              width: overlay.width,
-              height: overlay.height,
-              touchAction: "none",
-              transform: "translateZ(0)",
-            }}
-            // overlay pointer interactions are done via onPointerDown on handles in a separate, simpler way:
-            onPointerDown={(ev) => {
-              // start a simple drag using pointer capture
-              const id = ev.pointerId;
-              (ev.target as Element).setPointerCapture?.(id);
-              const startX = ev.clientX;
-              const startY = ev.clientY;
-              const start = { x: overlay.x, y: overlay.y };
-              const move = (me: PointerEvent) => {
-                const dx = me.clientX - startX;
-                const dy = me.clientY - startY;
-                setOverlay((o) => (o ? { ...o, x: clamp(start.x + dx, 0, (containerRef.current?.clientWidth || 0) - o.width), y: clamp(start.y + dy, 0, (containerRef.current?.clientHeight || 0) - o.height) } : null));
-              };
-              const up = (ue: PointerEvent) => {
-                (ev.target as Element).releasePointerCapture?.(id);
-                window.removeEventListener("pointermove", move);
-                window.removeEventListener("pointerup", up);
-              };
-              window.addEventListener("pointermove", move);
-              window.addEventListener("pointerup", up);
-            }}
-          >
-            <img src={overlay.src} alt="ov" className="w-full h-full object-contain pointer-events-none" style={{ opacity: overlay.opacity }} />
-          </div>
-        )}
+        {activeTool === "markup" && <MarkupLayer imgRef={imgRef} imageWidth={imageSize.width} imageHeight={imageSize.height} markup={markup} />}
+
       </main>
 
+      {showHistory && (
+        <HistoryPanel
+          entries={history}
+          cursor={historyCursor}
+          thumbnails={thumbnails}
+          depth={historyDepth}
+          onJump={jumpTo}
+          onDepthChange={(depth) => {
+            localStorage.setItem(HISTORY_DEPTH_KEY, String(depth));
+            setHistoryDepth(depth);
+          }}
+        />
+      )}
+
       {/* bottom area: crop UI or import footer */}
-      {(activeTool === "crop" || activeTool === "import") ? (
+      {/* layer images can be added from the tool list and from inside the Layers tool */}
+      <input type="file" ref={importRef} accept="image/*" onChange={handleImageImport} className="hidden" />
+      {isFooterTool ? (
         <footer className="bg-gray-800 p-3 flex items-center gap-3"
         style={{
           paddingBottom: "calc(env(safe-area-inset-bottom, 12px) + 12px)",
@@ -771,24 +1062,100 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
         >
           {activeTool === "crop" && (
             <CropTool
-              image={currentImageUri}
-              onCropDone={(img) => {
-                pushUndo(currentImageUri);
-                setCurrentImageUri(img);
+              image={previewUri}
+              imageWidth={imageSize.width}
+              imageHeight={imageSize.height}
+              aspect={activePreset ? activePreset.widthPx / activePreset.heightPx : undefined}
+              onCropDone={(rect) => {
+                if (activePreset) {
+                  handlePresetCrop(rect, activePreset);
+                  return;
+                }
+                applyOps({ type: "crop", rect });
+                setActiveTool(null);
+              }}
+              onCancel={() => {
+                setActivePreset(null);
+                setActiveTool(null);
+              }}
+            />
+          )}
+
+          {activeTool === "scan" && (
+            <ScanTool
+              image={previewUri}
+              imageWidth={imageSize.width}
+              imageHeight={imageSize.height}
+              onScanDone={(quad, paper, mode) => {
+                applyOps(mode ? [{ type: "perspective", quad, paper }, { type: "scan", mode }] : { type: "perspective", quad, paper }, "Scan document");
                 setActiveTool(null);
               }}
               onCancel={() => setActiveTool(null)}
             />
           )}
 
-          {activeTool === "import" && (
-            <div className="flex items-center gap-2 w-full">
-              <button onClick={() => { setOverlay(null); setActiveTool(null); }} className="px-4 py-2 bg-gray-600 rounded">Cancel</button>
-              <button onClick={handleApplyOverlay} className="px-4 py-2 bg-blue-600 rounded text-white">Apply Overlay</button>
-              <div className="flex-1" />
-              <label className="text-sm text-gray-300">Opacity</label>
-              <input type="range" min={0} max={1} step={0.01} value={overlay?.opacity ?? 1} onChange={(e) => setOverlay((o) => o ? { ...o, opacity: parseFloat(e.target.value) } : o)} />
-            </div>
+          {activeTool === "text" && (
+            <TextTool
+              image={previewUri}
+              imageWidth={imageSize.width}
+              imageHeight={imageSize.height}
+              onDone={(boxes) => {
+                applyOps({ type: "text", boxes });
+                setActiveTool(null);
+              }}
+              onCancel={() => setActiveTool(null)}
+            />
+          )}
+
+          {activeTool === "redact" && (
+            <RedactTool
+              image={previewUri}
+              imageWidth={imageSize.width}
+              imageHeight={imageSize.height}
+              onDone={(regions, style, color) => {
+                applyOps({ type: "redact", regions, style, color });
+                setActiveTool(null);
+              }}
+              onCancel={() => setActiveTool(null)}
+            />
+          )}
+
+          {activeTool === "markup" && (
+            <MarkupToolbar
+              markup={markup}
+              onDone={() => {
+                applyOps({ type: "markup", shapes: markup.shapes });
+                setActiveTool(null);
+              }}
+              onCancel={() => setActiveTool(null)}
+            />
+          )}
+
+          {activeTool === "layers" && (
+            <LayersTool
+              image={previewUri}
+              imageWidth={imageSize.width}
+              imageHeight={imageSize.height}
+              layers={layers ?? []}
+              onChange={setLayers}
+              onAddImage={handleImportClick}
+              onDone={handleApplyLayers}
+              onCancel={() => {
+                setLayers(null);
+                setActiveTool(null);
+              }}
+            />
+          )}
+
+          {activeTool === "removeBg" && committedCutout && (
+            <CutoutTool
+              image={previewUri}
+              imageWidth={imageSize.width}
+              imageHeight={imageSize.height}
+              cutout={committedCutout}
+              onDone={handleApplyCutout}
+              onCancel={() => setActiveTool(null)}
+            />
           )}
         </footer>
       ) : (
@@ -800,7 +1167,6 @@ export default function EditorScreen({ imageUri, onBack, onSave }: EditorScreenP
           paddingRight: 16,
          }}
           >
-          <input type="file" ref={importRef} accept="image/*" onChange={handleImageImport} className="hidden" />
           <nav className="flex gap-2">
             {tools.map((t) => (
               <button key={t.name} onClick={t.handler} className="flex flex-col items-center p-2 w-20 h-20 bg-gray-700 rounded hover:bg-gray-600">
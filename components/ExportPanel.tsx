@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react";
+import { formatKB } from "../utils/compress";
+import { createCanvas, loadImage } from "../utils/image";
+import { EXPORT_FORMATS, encodeExport, exportSize, ExportSettings, formatFilename, loadExportSettings } from "../utils/export";
+import PdfPageFields from "./PdfPageFields";
+
+interface ExportPanelProps {
+  // current preview render, used to estimate the file size
+  previewUri: string;
+  // full-resolution size of the edited image
+  size: { width: number; height: number };
+  // a Compress step decides JPEG quality and size
+  compressStep: { quality?: number; maxKB?: number } | null;
+  onExport: (settings: ExportSettings) => void;
+}
+
+const ESTIMATE_DELAY = 300;
+
+const inputClass = "w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600";
+
+// Format, quality, size and filename for the exported file, with a size estimate
+export default function ExportPanel({ previewUri, size, compressStep, onExport }: ExportPanelProps) {
+  const [settings, setSettings] = useState<ExportSettings>(loadExportSettings);
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const update = (patch: Partial<ExportSettings>) => setSettings((s) => ({ ...s, ...patch }));
+
+  const output = exportSize(size.width, size.height, settings.maxDimension);
+  const format = EXPORT_FORMATS.find((f) => f.id === settings.format)!;
+  // PDF pages hold a JPEG, so both formats follow a Compress step
+  const jpegBased = settings.format === "jpeg" || settings.format === "pdf";
+  const compressed = jpegBased && compressStep;
+
+  // encode the preview with the same settings and scale the byte count up to the output size
+  useEffect(() => {
+    setEstimate(null);
+    if (compressed) return;
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const img = await loadImage(previewUri);
+        const t = Math.min(1, output.width / img.naturalWidth);
+        const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.naturalWidth * t)), Math.max(1, Math.round(img.naturalHeight * t)));
+        ctx.imageSmoothingQuality = "high";
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        const sample = await encodeExport(canvas, [], { ...settings, maxDimension: null });
+        if (!cancelled) setEstimate((sample.bytes * output.width * output.height) / (canvas.width * canvas.height));
+      } catch (err) {
+        console.error("Size estimate failed:", err);
+      }
+    }, ESTIMATE_DELAY);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [previewUri, settings.format, settings.quality, settings.background, settings.pdf, output.width, output.height, compressed]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Export</h3>
+
+      <div className="flex gap-2">
+        {EXPORT_FORMATS.map((f) => (
+          <button
+            key={f.id}
+            onClick={() => update({ format: f.id })}
+            className={`flex-1 p-2 border rounded dark:border-gray-600 ${settings.format === f.id ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+          >
+            {f.name}
+          </button>
+        ))}
+      </div>
+      {settings.format === "png" && <p className="text-xs text-gray-400">Lossless and keeps transparency; usually the largest file.</p>}
+      {settings.format === "pdf" && <PdfPageFields options={settings.pdf} onChange={(pdf) => update({ pdf })} />}
+
+      {compressed ? (
+        <p className="text-sm text-gray-400">
+          Quality is set by the Compress step ({compressStep.maxKB ? `under ${compressStep.maxKB} KB` : `quality ${compressStep.quality ?? 92}`}).
+        </p>
+      ) : (
+        settings.format !== "png" && (
+          <div>
+            <p className="text-sm mb-1">Quality: {settings.quality}</p>
+            <input type="range" min={1} max={100} value={settings.quality} onChange={(e) => update({ quality: Number(e.target.value) })} className="w-full" />
+          </div>
+        )
+      )}
+
+      <div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={settings.maxDimension !== null}
+            onChange={(e) => update({ maxDimension: e.target.checked ? Math.min(2048, Math.max(size.width, size.height)) : null })}
+          />
+          Limit longest side
+        </label>
+        {settings.maxDimension !== null && (
+          <input
+            type="number"
+            min={16}
+            value={settings.maxDimension}
+            onChange={(e) => update({ maxDimension: Math.max(16, Number(e.target.value) || 16) })}
+            className={`${inputClass} mt-1`}
+          />
+        )}
+      </div>
+
+      {jpegBased && (
+        <label className="flex items-center gap-2 text-sm">
+          <input type="color" value={settings.background} onChange={(e) => update({ background: e.target.value })} />
+          Background for transparent areas
+        </label>
+      )}
+
+      <label className="text-sm">
+        File name
+        <input type="text" value={settings.filename} onChange={(e) => update({ filename: e.target.value })} className={inputClass} />
+        <span className="block text-xs text-gray-400 mt-1">
+          {formatFilename(settings.filename, output, format.mimeType)} · placeholders {"{date} {time} {w} {h}"}
+        </span>
+      </label>
+
+      <p className="text-sm">
+        {output.width} × {output.height} px
+        {compressed ? "" : estimate === null ? " · estimating size…" : ` · about ${formatKB(estimate)}`}
+      </p>
+
+      <button onClick={() => onExport(settings)} className="w-full bg-blue-500 text-white p-2 rounded">
+        Export {format.name}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from "react";
+import { applyFilter, FilterId, FILTERS } from "../utils/filters";
+import { canvasToDataUrl, createCanvas, loadImage } from "../utils/image";
+
+interface FiltersPanelProps {
+  // current preview, used for the thumbnails
+  source: string;
+  imageWidth: number;
+  imageHeight: number;
+  onChange: (filter: FilterId | null, intensity: number) => void;
+  onApply: (filter: FilterId, intensity: number) => void;
+}
+
+const THUMB_SIZE = 72;
+
+// Thumbnail strip of filters with an intensity slider; the choice is previewed through the pipeline
+export default function FiltersPanel({ source, imageWidth, imageHeight, onChange, onApply }: FiltersPanelProps) {
+  // the preview URL is replaced (and revoked) once a filter is shown, so thumbnails are built once from the opening one
+  const [thumbSource] = useState(source);
+  const [thumbnails, setThumbnails] = useState<Partial<Record<FilterId | "none", string>>>({});
+  const [selected, setSelected] = useState<FilterId | null>(null);
+  const [intensity, setIntensity] = useState(100);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const img = await loadImage(thumbSource);
+      const t = Math.min(1, THUMB_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.naturalWidth * t)), Math.max(1, Math.round(img.naturalHeight * t)));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      // same scale rule as the pipeline, relative to the full-resolution image
+      const scale = Math.max(canvas.width, canvas.height) / Math.max(1, imageWidth, imageHeight);
+      const next: Partial<Record<FilterId | "none", string>> = { none: canvasToDataUrl(canvas, "image/jpeg", 0.8) };
+      for (const f of FILTERS) {
+        if (cancelled) return;
+        next[f.id] = canvasToDataUrl(applyFilter(canvas, f.id, 100, scale), "image/jpeg", 0.8);
+      }
+      if (!cancelled) setThumbnails(next);
+    })().catch((err) => console.error("Filter thumbnails failed:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbSource, imageWidth, imageHeight]);
+
+  const select = (id: FilterId | null) => {
+    setSelected(id);
+    onChange(id, intensity);
+  };
+  const changeIntensity = (value: number) => {
+    setIntensity(value);
+    onChange(selected, value);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Filters</h3>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        <button
+          onClick={() => select(null)}
+          className={`flex-shrink-0 w-20 flex flex-col items-center gap-1 p-1 rounded ${selected === null ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+        >
+          <div className="w-16 h-16 flex items-center justify-center bg-gray-900 rounded overflow-hidden">
+            {thumbnails.none && <img src={thumbnails.none} alt="Original" className="max-w-full max-h-full object-contain" />}
+          </div>
+          <span className="text-xs">None</span>
+        </button>
+        {FILTERS.map((f) => (
+          <button
+            key={f.id}
+            onClick={() => select(f.id)}
+            className={`flex-shrink-0 w-20 flex flex-col items-center gap-1 p-1 rounded ${selected === f.id ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+          >
+            <div className="w-16 h-16 flex items-center justify-center bg-gray-900 rounded overflow-hidden">
+              {thumbnails[f.id] ? (
+                <img src={thumbnails[f.id]} alt={f.name} className="max-w-full max-h-full object-contain" />
+              ) : (
+                <span className="text-xs text-gray-500">…</span>
+              )}
+            </div>
+            <span className="text-xs">{f.name}</span>
+          </button>
+        ))}
+      </div>
+      <div>
+        <label className="text-sm">Intensity: {intensity}%</label>
+        <input type="range" min={0} max={100} value={intensity} disabled={!selected} onChange={(e) => changeIntensity(Number(e.target.value))} className="w-full" />
+      </div>
+      <button disabled={!selected} onClick={() => selected && onApply(selected, intensity)} className="w-full bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+        Apply Filter
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef } from "react";
+import { HistoryState } from "../hooks/useEditPipeline";
+
+interface HistoryPanelProps {
+  entries: HistoryState[];
+  cursor: number;
+  thumbnails: Record<number, string>;
+  depth: number;
+  onJump: (index: number) => void;
+  onDepthChange: (depth: number) => void;
+}
+
+const DEPTH_OPTIONS = [10, 25, 50, 100, 0];
+
+// Scrollable strip of history states; tap one to jump there (later states stay available for redo)
+export default function HistoryPanel({ entries, cursor, thumbnails, depth, onJump, onDepthChange }: HistoryPanelProps) {
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "nearest", inline: "center" });
+  }, [cursor]);
+
+  return (
+    <div className="bg-gray-800 border-t border-gray-700 px-4 py-2">
+      <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+        <span>History ({entries.length})</span>
+        <label className="flex items-center gap-1">
+          Keep
+          <select value={depth} onChange={(e) => onDepthChange(Number(e.target.value))} className="bg-gray-700 rounded px-1">
+            {DEPTH_OPTIONS.map((d) => (
+              <option key={d} value={d}>{d === 0 ? "all" : d}</option>
+            ))}
+          </select>
+          steps
+        </label>
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {entries.map((entry, i) => (
+          <button
+            key={entry.id}
+            ref={i === cursor ? activeRef : undefined}
+            onClick={() => onJump(i)}
+            className={`flex-shrink-0 w-20 flex flex-col items-center gap-1 p-1 rounded ${i === cursor ? "bg-blue-600" : "bg-gray-700 hover:bg-gray-600"} ${i > cursor ? "opacity-50" : ""}`}
+          >
+            <div className="w-16 h-16 flex items-center justify-center bg-gray-900 rounded overflow-hidden">
+              {thumbnails[entry.id] ? (
+                <img src={thumbnails[entry.id]} alt={entry.label} className="max-w-full max-h-full object-contain" />
+              ) : (
+                <span className="text-xs text-gray-500">…</span>
+              )}
+            </div>
+            <span className="text-[10px] leading-tight text-center line-clamp-2">{entry.label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,53 @@
-import React from 'react';
-import { HistoryEntry } from '../types';
-import { BackIcon, TrashIcon, MoonIcon, SunIcon } from './icons';
+import React, { useState } from 'react';
+import { BackIcon, TrashIcon, MoonIcon, SunIcon, PdfIcon } from './icons';
 import { useTheme } from '../hooks/useTheme';
+import { useHistoryStore } from '../hooks/useHistoryStore';
+import { EditRecipe, HistoryRecord, QUOTA_WARNING } from '../utils/historyStore';
+import PdfSetPanel from './PdfSetPanel';
 
 interface HistoryScreenProps {
-  history: HistoryEntry[];
-  onDelete: (id: number) => void;
-  onClear: () => void;
-  onReEdit: (imageUri: string) => void;
+  // recipe is present when the entry can be re-edited from its original
+  onReEdit: (imageUri: string, recipe?: EditRecipe) => void;
   onBack: () => void;
 }
 
-const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onDelete, onClear, onReEdit, onBack }) => {
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ onReEdit, onBack }) => {
   const { theme, toggleTheme } = useTheme();
+  const { items, loading, storage, remove, clear } = useHistoryStore();
+  const nearlyFull = !!storage && storage.quota > 0 && storage.usage / storage.quota > QUOTA_WARNING;
+  // while picking pages for a PDF, taps select entries instead of opening them
+  const [selecting, setSelecting] = useState(false);
+  // selected ids in page order
+  const [pages, setPages] = useState<number[]>([]);
+  const selected = pages.map((id) => items.find((item) => item.record.id === id)).filter((item): item is NonNullable<typeof item> => !!item);
+
+  // the editor revokes this URL once it has loaded the image
+  const handleReEdit = (record: HistoryRecord) => {
+    onReEdit(URL.createObjectURL(record.image), record.recipe ?? undefined);
+  };
+
+  const handleClear = () => {
+    if (window.confirm("Delete all saved edits? This can't be undone.")) clear();
+  };
+
+  const handleTap = (record: HistoryRecord) => {
+    if (!selecting) return handleReEdit(record);
+    setPages((p) => (p.includes(record.id) ? p.filter((id) => id !== record.id) : [...p, record.id]));
+  };
+
+  const toggleSelecting = () => {
+    setSelecting((s) => !s);
+    setPages([]);
+  };
+
+  const movePage = (index: number, delta: number) => {
+    const ids = selected.map((item) => item.record.id);
+    [ids[index], ids[index + delta]] = [ids[index + delta], ids[index]];
+    setPages(ids);
+  };
 
   return (
     <div className="flex flex-col h-full">
@@ -20,7 +55,15 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onDelete, onClea
         <button onClick={onBack} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"><BackIcon className="w-6 h-6"/></button>
         <h2 className="font-bold text-lg">History</h2>
         <div className="flex items-center gap-2">
-          <button onClick={onClear} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed" disabled={history.length === 0}>
+          <button
+            onClick={toggleSelecting}
+            title="Combine into a PDF"
+            className={`p-2 rounded-full disabled:opacity-50 disabled:cursor-not-allowed ${selecting ? 'bg-blue-500 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            disabled={items.length === 0}
+          >
+            <PdfIcon className="w-6 h-6"/>
+          </button>
+          <button onClick={handleClear} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed" disabled={items.length === 0}>
             <TrashIcon className="w-6 h-6 text-red-500"/>
           </button>
           <button onClick={toggleTheme} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
@@ -29,25 +72,39 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onDelete, onClea
         </div>
       </header>
       <main className="flex-1 p-4 overflow-y-auto">
-        {history.length === 0 ? (
+        {storage && storage.quota > 0 && (
+          <div className={`mb-4 text-xs ${nearlyFull ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+            <p>Using {formatBytes(storage.usage)} of {formatBytes(storage.quota)} available on this device.</p>
+            {nearlyFull && <p>Storage is almost full. The oldest edits are removed automatically when you save new ones.</p>}
+          </div>
+        )}
+        {loading ? null : items.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
             <p className="text-xl">No saved images yet.</p>
             <p>Go back and edit an image to see it here.</p>
           </div>
         ) : (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-            {history.map(entry => (
-              <div key={entry.id} className="group relative rounded-lg overflow-hidden shadow-lg border border-gray-200 dark:border-gray-700">
+            {items.map(({ record: entry, thumbnailUrl }) => (
+              <div
+                key={entry.id}
+                className={`group relative rounded-lg overflow-hidden shadow-lg border ${pages.includes(entry.id) ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200 dark:border-gray-700'}`}
+              >
                 <img 
-                  src={entry.dataUrl} 
+                  src={thumbnailUrl} 
                   alt={`Edited on ${new Date(entry.timestamp).toLocaleString()}`}
                   className="w-full h-full object-cover cursor-pointer"
-                  onClick={() => onReEdit(entry.dataUrl)}
+                  onClick={() => handleTap(entry)}
                 />
-                <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-60 transition-all flex flex-col justify-between p-2">
+                {pages.includes(entry.id) && (
+                  <span className="absolute top-2 left-2 bg-blue-500 text-white text-xs font-bold rounded-full w-6 h-6 flex items-center justify-center pointer-events-none">
+                    {selected.findIndex((item) => item.record.id === entry.id) + 1}
+                  </span>
+                )}
+                {!selecting && <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-60 transition-all flex flex-col justify-between p-2">
                   <div className="opacity-0 group-hover:opacity-100 transition-opacity">
                     <button 
-                      onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
+                      onClick={(e) => { e.stopPropagation(); remove(entry.id); }}
                       className="absolute top-2 right-2 bg-red-500 text-white rounded-full p-1.5 shadow-md hover:bg-red-600"
                     >
                       <TrashIcon className="w-4 h-4"/>
@@ -56,12 +113,18 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onDelete, onClea
                   <div className="text-white text-xs opacity-0 group-hover:opacity-100 transition-opacity self-start bg-black bg-opacity-50 rounded px-1 py-0.5">
                     <p>{new Date(entry.timestamp).toLocaleDateString()}</p>
                     <p>{new Date(entry.timestamp).toLocaleTimeString()}</p>
+                    <p>{entry.width} × {entry.height} · {formatBytes(entry.bytes)}</p>
                   </div>
-                </div>
+                </div>}
               </div>
             ))}
           </div>
         )}
+        {selecting && items.length > 0 && (
+          <div className="mt-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <PdfSetPanel items={selected} onMove={movePage} onRemove={(i) => setPages(selected.filter((_, j) => j !== i).map((item) => item.record.id))} />
+          </div>
+        )}
       </main>
     </div>
   );
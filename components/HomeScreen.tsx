@@ -1,22 +1,48 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { MoonIcon, SunIcon } from './icons';
 import { useTheme } from '../hooks/useTheme';
+import { EditorSession, loadSession } from '../utils/session';
 
 interface HomeScreenProps {
   onImageSelect: (imageUri: string) => void;
   onViewHistory: () => void;
+  onResume?: (imageUri: string, session: EditorSession) => void;
+  // several files picked at once open batch mode
+  onBatchSelect?: (files: File[]) => void;
 }
 
-const HomeScreen: React.FC<HomeScreenProps> = ({ onImageSelect, onViewHistory }) => {
+const HomeScreen: React.FC<HomeScreenProps> = ({ onImageSelect, onViewHistory, onResume, onBatchSelect }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { theme, toggleTheme } = useTheme();
+  // an edit that was interrupted (reload, killed WebView) and can be picked up again
+  const [savedSession, setSavedSession] = useState<EditorSession | null>(null);
+
+  const canResume = !!onResume;
+
+  useEffect(() => {
+    if (!canResume) return;
+    loadSession()
+      .then((session) => setSavedSession(session ?? null))
+      .catch((err) => console.error('Failed to load session:', err));
+  }, [canResume]);
+
+  const handleResume = () => {
+    if (!savedSession || !onResume) return;
+    onResume(URL.createObjectURL(savedSession.original), savedSession);
+  };
 
   const handleSelectImageClick = () => {
     fileInputRef.current?.click();
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 1 && onBatchSelect) {
+      onBatchSelect(files);
+      return;
+    }
+    const file = files[0];
     if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
@@ -39,6 +65,15 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onImageSelect, onViewHistory })
         <p className="mt-2 text-lg text-gray-500 dark:text-gray-400">Quick and simple photo editing.</p>
       </div>
       <div className="mt-12 space-y-4 w-full max-w-xs">
+        {savedSession && (
+          <button
+            onClick={handleResume}
+            className="w-full bg-green-500 hover:bg-green-600 text-white font-bold py-4 px-4 rounded-lg shadow-lg transition-transform transform hover:scale-105"
+          >
+            Resume last edit
+            <span className="block text-xs font-normal opacity-80">{new Date(savedSession.updatedAt).toLocaleString()}</span>
+          </button>
+        )}
         <button
           onClick={handleSelectImageClick}
           className="w-full bg-blue-500 hover:bg-blue-600 text-white font-bold py-4 px-4 rounded-lg shadow-lg transition-transform transform hover:scale-105"
@@ -50,6 +85,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ onImageSelect, onViewHistory })
           ref={fileInputRef}
           onChange={handleFileChange}
           accept="image/*"
+          multiple={!!onBatchSelect}
           className="hidden"
         />
         <button
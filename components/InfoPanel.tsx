@@ -0,0 +1,124 @@
+import React from "react";
+import { formatKB } from "../utils/compress";
+import { ExifData, METADATA_FIELDS, MetadataField } from "../utils/exif";
+
+interface InfoPanelProps {
+  exif: ExifData | null;
+  fileSize: number;
+  originalSize: { width: number; height: number };
+  outputSize: { width: number; height: number };
+  // metadata fields written into exports; empty strips everything
+  keep: MetadataField[];
+  onKeepChange: (keep: MetadataField[]) => void;
+}
+
+// "2024:05:01 10:20:30" as stored in EXIF
+const formatExifDate = (value: string) => {
+  const m = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  return m ? new Date(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]).toLocaleString() : value;
+};
+
+const formatExposure = (exif: ExifData) =>
+  [
+    exif.exposureTime && (exif.exposureTime < 1 ? `1/${Math.round(1 / exif.exposureTime)} s` : `${exif.exposureTime} s`),
+    exif.fNumber && `f/${exif.fNumber.toFixed(1)}`,
+    exif.iso && `ISO ${exif.iso}`,
+    exif.focalLength && `${Math.round(exif.focalLength)} mm`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const Row = ({ label, value }: { label: string; value?: string }) =>
+  value ? (
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="text-gray-400">{label}</span>
+      <span className="text-right break-all">{value}</span>
+    </div>
+  ) : null;
+
+// What the photo file says about itself, and which of it goes into exports
+export default function InfoPanel({ exif, fileSize, originalSize, outputSize, keep, onKeepChange }: InfoPanelProps) {
+  const resized = originalSize.width !== outputSize.width || originalSize.height !== outputSize.height;
+  const camera = exif && [exif.make, exif.model].filter(Boolean).join(" ");
+  const strip = keep.length === 0;
+
+  const available: Record<MetadataField, boolean> = {
+    date: !!exif?.dateTaken,
+    copyright: !!(exif?.copyright || exif?.artist),
+    camera: !!camera,
+    gps: !!exif?.gps,
+  };
+
+  const toggle = (field: MetadataField) => onKeepChange(keep.includes(field) ? keep.filter((f) => f !== field) : [...keep, field]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Photo Info</h3>
+
+      <div className="flex flex-col gap-1">
+        <Row label="Dimensions" value={`${originalSize.width} × ${originalSize.height} px`} />
+        {resized && <Row label="After edits" value={`${outputSize.width} × ${outputSize.height} px`} />}
+        <Row label="File size" value={formatKB(fileSize)} />
+        {exif ? (
+          <>
+            <Row label="Camera" value={camera || undefined} />
+            <Row label="Lens" value={exif.lens} />
+            <Row label="Exposure" value={formatExposure(exif) || undefined} />
+            <Row label="Taken" value={exif.dateTaken && formatExifDate(exif.dateTaken)} />
+            <Row label="Author" value={exif.artist} />
+            <Row label="Copyright" value={exif.copyright} />
+            <Row label="Software" value={exif.software} />
+            {exif.gps && (
+              <Row
+                label="Location"
+                value={`${exif.gps.latitude.toFixed(5)}, ${exif.gps.longitude.toFixed(5)}${exif.gps.altitude !== undefined ? ` · ${Math.round(exif.gps.altitude)} m` : ""}`}
+              />
+            )}
+            {exif.orientation !== 1 && <p className="text-xs text-gray-400">Shown upright using the camera's orientation tag.</p>}
+          </>
+        ) : (
+          <p className="text-sm text-gray-400">This image has no EXIF metadata.</p>
+        )}
+      </div>
+
+      {exif?.gps && (
+        <p className="text-sm text-yellow-500">This photo records the GPS location where it was taken.</p>
+      )}
+
+      <div>
+        <h4 className="text-sm font-bold mb-1">On export</h4>
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={() => onKeepChange([])}
+            className={`flex-1 p-2 border rounded dark:border-gray-600 text-sm ${strip ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+          >
+            Strip all
+          </button>
+          <button
+            onClick={() => strip && onKeepChange(["date", "copyright"])}
+            className={`flex-1 p-2 border rounded dark:border-gray-600 text-sm ${!strip ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+          >
+            Keep selected
+          </button>
+        </div>
+        {strip ? (
+          <p className="text-xs text-gray-400">Exports carry no camera, date or location data.</p>
+        ) : (
+          <div className="flex flex-col gap-1">
+            {METADATA_FIELDS.map((f) => (
+              <label key={f.id} className={`flex items-center gap-2 text-sm ${available[f.id] ? "" : "text-gray-400"}`}>
+                <input type="checkbox" checked={keep.includes(f.id)} onChange={() => toggle(f.id)} />
+                {f.name}
+                {!available[f.id] && <span className="text-xs">(not in this photo)</span>}
+              </label>
+            ))}
+            <p className="text-xs text-gray-400">Kept fields are written into JPEG exports.</p>
+            {keep.includes("gps") && (
+              <p className="text-xs text-red-500">Anyone you send the image to will be able to see where it was taken.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
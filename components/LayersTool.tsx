@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useImageViewport } from "../hooks/useImageViewport";
+import { BLEND_MODES, ImageLayer, moveLayer } from "../utils/layers";
+
+interface LayersToolProps {
+  // the image under the stack
+  image: string;
+  imageWidth: number;
+  imageHeight: number;
+  layers: ImageLayer[];
+  onChange: (layers: ImageLayer[]) => void;
+  onAddImage: () => void;
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+type Drag = { mode: "move" | "scale" | "rotate"; id: string; startX: number; startY: number; start: ImageLayer; cx: number; cy: number };
+
+const buttonClass = "px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50";
+
+// Stack of image layers over the photo: move, resize and rotate with handles; opacity,
+// blend mode, order, visibility and lock per layer
+export default function LayersTool({ image, imageWidth, imageHeight, layers, onChange, onAddImage, onDone, onCancel }: LayersToolProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const iw = Math.max(1, imageWidth);
+  const ih = Math.max(1, imageHeight);
+  const { view, measure } = useImageViewport(containerRef, imgRef, iw, ih);
+  const [selectedId, setSelectedId] = useState<string | null>(() => layers[layers.length - 1]?.id ?? null);
+  const dragRef = useRef<Drag | null>(null);
+  // object URLs for the layer images, kept per blob
+  const urlsRef = useRef(new Map<Blob, string>());
+
+  const selected = layers.find((l) => l.id === selectedId) ?? null;
+  const shownW = iw * view.scale;
+  const shownH = ih * view.scale;
+
+  useEffect(() => () => urlsRef.current.forEach((url) => URL.revokeObjectURL(url)), []);
+
+  // select a layer as soon as it is added
+  const count = layers.length;
+  useEffect(() => {
+    if (count > 0) setSelectedId(layers[count - 1].id);
+  }, [count]);
+
+  const urlFor = (blob: Blob) => {
+    let url = urlsRef.current.get(blob);
+    if (!url) {
+      url = URL.createObjectURL(blob);
+      urlsRef.current.set(blob, url);
+    }
+    return url;
+  };
+
+  const updateLayer = (id: string, patch: Partial<ImageLayer>) => onChange(layers.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+
+  const startDrag = (mode: Drag["mode"], layer: ImageLayer, e: React.PointerEvent) => {
+    e.stopPropagation();
+    setSelectedId(layer.id);
+    if (layer.locked) return;
+    const c = containerRef.current!.getBoundingClientRect();
+    containerRef.current!.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      mode,
+      id: layer.id,
+      startX: e.clientX,
+      startY: e.clientY,
+      start: layer,
+      cx: c.left + view.left + layer.x * shownW,
+      cy: c.top + view.top + layer.y * shownH,
+    };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { start } = drag;
+    if (drag.mode === "move") {
+      updateLayer(drag.id, {
+        x: Math.min(1, Math.max(0, start.x + (e.clientX - drag.startX) / shownW)),
+        y: Math.min(1, Math.max(0, start.y + (e.clientY - drag.startY) / shownH)),
+      });
+    } else if (drag.mode === "scale") {
+      // both sides scale together so the layer keeps its aspect ratio
+      const ratio = Math.hypot(e.clientX - drag.cx, e.clientY - drag.cy) / Math.max(1, Math.hypot(drag.startX - drag.cx, drag.startY - drag.cy));
+      const t = Math.max(0.02 / Math.min(start.w, start.h), Math.min(ratio, 4 / Math.max(start.w, start.h)));
+      updateLayer(drag.id, { w: start.w * t, h: start.h * t });
+    } else {
+      // the handle sits above the layer, so straight up is 0°; snap near level
+      let angle = (Math.atan2(e.clientY - drag.cy, e.clientX - drag.cx) * 180) / Math.PI + 90;
+      if (angle > 180) angle -= 360;
+      updateLayer(drag.id, { rotation: Math.abs(angle) < 3 ? 0 : Math.round(angle) });
+    }
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    containerRef.current?.releasePointerCapture?.(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const remove = (id: string) => {
+    onChange(layers.filter((l) => l.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-2">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden"
+        // isolate so blend modes mix with the photo and the layers below, not the page
+        style={{ height: 260, touchAction: "none", isolation: "isolate" }}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onPointerDown={() => setSelectedId(null)}
+      >
+        <img ref={imgRef} src={image} alt="layers preview" className="w-full h-full object-contain pointer-events-none" draggable={false} onLoad={measure} />
+        {layers.map((layer) =>
+          layer.visible ? (
+            <img
+              key={layer.id}
+              src={urlFor(layer.image)}
+              alt={layer.name}
+              draggable={false}
+              className="absolute max-w-none"
+              style={{
+                left: view.left + (layer.x - layer.w / 2) * shownW,
+                top: view.top + (layer.y - layer.h / 2) * shownH,
+                width: layer.w * shownW,
+                height: layer.h * shownH,
+                transform: `rotate(${layer.rotation}deg)`,
+                opacity: layer.opacity,
+                mixBlendMode: layer.blend,
+                cursor: "move",
+                // locked layers let taps through to the layers below; select them from the list
+                pointerEvents: layer.locked ? "none" : undefined,
+              }}
+              onPointerDown={(e) => startDrag("move", layer, e)}
+            />
+          ) : null
+        )}
+        {selected && selected.visible && (
+          // handles live outside the blended images so they aren't blended themselves
+          <div
+            className={`absolute border border-dashed pointer-events-none ${selected.locked ? "border-gray-400" : "border-blue-400"}`}
+            style={{
+              left: view.left + (selected.x - selected.w / 2) * shownW,
+              top: view.top + (selected.y - selected.h / 2) * shownH,
+              width: selected.w * shownW,
+              height: selected.h * shownH,
+              transform: `rotate(${selected.rotation}deg)`,
+            }}
+          >
+            {!selected.locked && (
+              <>
+                <div
+                  className="absolute w-4 h-4 rounded-full bg-white border-2 border-blue-500 pointer-events-auto"
+                  style={{ left: "calc(50% - 8px)", top: -28, cursor: "grab" }}
+                  onPointerDown={(e) => startDrag("rotate", selected, e)}
+                />
+                <div
+                  className="absolute w-4 h-4 rounded bg-white pointer-events-auto"
+                  style={{ right: -8, bottom: -8, cursor: "nwse-resize" }}
+                  onPointerDown={(e) => startDrag("scale", selected, e)}
+                />
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-32 overflow-y-auto">
+        {layers.length === 0 && <p className="text-xs text-gray-400">No layers yet. Add an image to start.</p>}
+        {/* top of the stack first, like most editors */}
+        {[...layers].reverse().map((layer, i) => (
+          <div
+            key={layer.id}
+            onClick={() => setSelectedId(layer.id)}
+            className={`flex items-center gap-1 p-1 rounded text-xs cursor-pointer ${layer.id === selectedId ? "bg-gray-600" : "hover:bg-gray-700"}`}
+          >
+            <button onClick={() => updateLayer(layer.id, { visible: !layer.visible })} className={`w-12 ${layer.visible ? "" : "text-gray-500"}`} title="Show or hide">
+              {layer.visible ? "Shown" : "Hidden"}
+            </button>
+            <img src={urlFor(layer.image)} alt="" className="w-8 h-8 object-contain bg-gray-900 rounded" />
+            <span className="flex-1 truncate">{layer.name}</span>
+            <button onClick={() => updateLayer(layer.id, { locked: !layer.locked })} className={`w-12 ${layer.locked ? "text-yellow-400" : "text-gray-400"}`} title="Lock position">
+              {layer.locked ? "Locked" : "Lock"}
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); onChange(moveLayer(layers, layer.id, 1)); }} disabled={i === 0} className="px-1 disabled:opacity-30" title="Bring forward">↑</button>
+            <button onClick={(e) => { e.stopPropagation(); onChange(moveLayer(layers, layer.id, -1)); }} disabled={i === layers.length - 1} className="px-1 disabled:opacity-30" title="Send backward">↓</button>
+            <button onClick={(e) => { e.stopPropagation(); remove(layer.id); }} className="px-1 text-red-400" title="Delete layer">×</button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <button onClick={onAddImage} className={buttonClass}>+ Image</button>
+        {selected && (
+          <>
+            {BLEND_MODES.map((b) => (
+              <button
+                key={b.id}
+                onClick={() => updateLayer(selected.id, { blend: b.id })}
+                className={`px-2 py-1 text-xs rounded ${selected.blend === b.id ? "bg-blue-600 text-white" : "bg-gray-700 hover:bg-gray-600"}`}
+              >
+                {b.name}
+              </button>
+            ))}
+            <label className="flex items-center gap-1 text-xs">
+              Opacity
+              <input type="range" min={0} max={100} value={Math.round(selected.opacity * 100)} onChange={(e) => updateLayer(selected.id, { opacity: Number(e.target.value) / 100 })} />
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-600 rounded">Cancel</button>
+        <button onClick={onDone} className="px-4 py-2 bg-blue-600 text-white rounded">Apply Layers</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { RefObject, useEffect, useRef } from "react";
+import { useImageViewport } from "../hooks/useImageViewport";
+import { Markup } from "../hooks/useMarkup";
+import { createShape, drawShape, isStroke, MarkupShape, moveShape, pointerPressure, shapeAt, shapeBounds, StrokePoint } from "../utils/markup";
+
+interface MarkupLayerProps {
+  // the editor's main image; shapes are placed over its visible content
+  imgRef: RefObject<HTMLImageElement | null>;
+  imageWidth: number;
+  imageHeight: number;
+  markup: Markup;
+}
+
+type Drag = { mode: "draw"; id: string } | { mode: "move"; id: string; last: StrokePoint; moved: boolean };
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// a line, arrow or shape released where it started is a stray tap, not a shape
+const isEmpty = (shape: MarkupShape) =>
+  !isStroke(shape) && Math.abs(shape.from.x - shape.to.x) < 0.002 && Math.abs(shape.from.y - shape.to.y) < 0.002;
+
+// Drawing surface laid over the editor image; takes over the pointer while markup is active
+export default function MarkupLayer({ imgRef, imageWidth, imageHeight, markup }: MarkupLayerProps) {
+  const layerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const iw = Math.max(1, imageWidth);
+  const ih = Math.max(1, imageHeight);
+  const { view, measure } = useImageViewport(layerRef, imgRef, iw, ih);
+  const dragRef = useRef<Drag | null>(null);
+  const { shapes, selected } = markup;
+
+  const shownW = iw * view.scale;
+  const shownH = ih * view.scale;
+
+  // shapes are drawn with the export renderer, at screen resolution
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const layer = layerRef.current;
+    if (!canvas || !layer) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = layer.clientWidth * dpr;
+    canvas.height = layer.clientHeight * dpr;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(dpr, dpr);
+    ctx.translate(view.left, view.top);
+    for (const shape of shapes) drawShape(ctx, shape, shownW, shownH);
+    if (selected) {
+      const b = shapeBounds(selected);
+      const pad = (selected.width * Math.min(shownW, shownH)) / 2 + 6;
+      ctx.setLineDash([5, 4]);
+      ctx.strokeStyle = "#60a5fa";
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(b.x * shownW - pad, b.y * shownH - pad, b.w * shownW + pad * 2, b.h * shownH + pad * 2);
+    }
+  }, [shapes, selected, view, shownW, shownH]);
+
+  const toImage = (e: { clientX: number; clientY: number; pointerType: string; pressure: number }): StrokePoint => {
+    const c = layerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - c.left - view.left) / shownW),
+      y: clamp01((e.clientY - c.top - view.top) / shownH),
+      p: pointerPressure(e),
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    // keep the editor's pan/zoom from seeing the gesture
+    e.stopPropagation();
+    if (dragRef.current || !e.isPrimary) return;
+    measure();
+    layerRef.current?.setPointerCapture(e.pointerId);
+    const at = toImage(e);
+
+    if (markup.mode === "select") {
+      const hit = shapeAt(shapes, at.x, at.y, shownW, shownH);
+      markup.select(hit?.id ?? null);
+      if (hit) dragRef.current = { mode: "move", id: hit.id, last: at, moved: false };
+      return;
+    }
+    const shape = createShape(markup.mode, at, markup.color, markup.width);
+    markup.select(null);
+    markup.commit((list) => [...list, shape]);
+    dragRef.current = { mode: "draw", id: shape.id };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    const drag = dragRef.current;
+    if (!drag || !e.isPrimary) return;
+
+    if (drag.mode === "draw") {
+      // coalesced events keep fast freehand strokes smooth
+      const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+      const points = (events.length ? events : [e]).map(toImage);
+      markup.replace((list) =>
+        list.map((s) => {
+          if (s.id !== drag.id) return s;
+          return isStroke(s) ? { ...s, points: [...s.points, ...points] } : { ...s, to: points[points.length - 1] };
+        })
+      );
+      return;
+    }
+
+    const at = toImage(e);
+    const dx = at.x - drag.last.x;
+    const dy = at.y - drag.last.y;
+    if (!dx && !dy) return;
+    // the first movement starts an undo step; the rest of the drag folds into it
+    const update = drag.moved ? markup.replace : markup.commit;
+    update((list) => list.map((s) => (s.id === drag.id ? moveShape(s, dx, dy) : s)));
+    dragRef.current = { ...drag, last: at, moved: true };
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    const drag = dragRef.current;
+    if (!drag || !e.isPrimary) return;
+    layerRef.current?.releasePointerCapture?.(e.pointerId);
+    dragRef.current = null;
+    if (drag.mode === "draw") {
+      const shape = shapes.find((s) => s.id === drag.id);
+      if (shape && isEmpty(shape)) markup.undo();
+    }
+  };
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0"
+      style={{ touchAction: "none", cursor: markup.mode === "select" ? "default" : "crosshair" }}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React from "react";
+import { Markup, MarkupMode } from "../hooks/useMarkup";
+import { HIGHLIGHTER_WIDTH, MARKUP_COLORS, MARKUP_KINDS } from "../utils/markup";
+
+interface MarkupToolbarProps {
+  markup: Markup;
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+const MODES: { id: MarkupMode; name: string }[] = [{ id: "select", name: "Select" }, ...MARKUP_KINDS];
+
+// Footer controls for the markup layer: drawing mode, stroke style and per-shape undo
+export default function MarkupToolbar({ markup, onDone, onCancel }: MarkupToolbarProps) {
+  const { selected } = markup;
+  const color = selected ? selected.color : markup.color;
+  // highlighters are stored wider; the slider shows the width they were drawn with
+  const width = selected ? (selected.kind === "highlighter" ? selected.width / HIGHLIGHTER_WIDTH : selected.width) : markup.width;
+  const setWidth = (value: number) => markup.setStyle({ width: selected?.kind === "highlighter" ? value * HIGHLIGHTER_WIDTH : value });
+
+  return (
+    <div className="flex-1 flex flex-col gap-2">
+      <div className="flex flex-wrap gap-1">
+        {MODES.map((m) => (
+          <button
+            key={m.id}
+            onClick={() => {
+              markup.setMode(m.id);
+              if (m.id !== "select") markup.select(null);
+            }}
+            className={`px-2 py-1 text-xs rounded ${markup.mode === m.id ? "bg-blue-600 text-white" : "bg-gray-700 hover:bg-gray-600"}`}
+          >
+            {m.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {MARKUP_COLORS.map((c) => (
+          <button
+            key={c}
+            onClick={() => markup.setStyle({ color: c })}
+            className={`w-6 h-6 rounded-full border-2 ${color === c ? "border-blue-400" : "border-gray-600"}`}
+            style={{ background: c }}
+            title={c}
+          />
+        ))}
+        <input type="color" value={color} onChange={(e) => markup.setStyle({ color: e.target.value })} title="Stroke colour" />
+        <label className="flex items-center gap-1">
+          Width
+          <input type="range" min={1} max={30} value={Math.round(width * 1000)} onChange={(e) => setWidth(Number(e.target.value) / 1000)} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={markup.undo} disabled={!markup.canUndo} className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50">Undo</button>
+        {selected && (
+          <button onClick={markup.removeSelected} className="px-2 py-1 text-xs rounded bg-red-600 text-white">Delete</button>
+        )}
+        <span className="text-xs text-gray-400">
+          {markup.mode === "select" ? "Tap a shape to select it, drag to move it." : `${markup.shapes.length} shape${markup.shapes.length === 1 ? "" : "s"}`}
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-600 rounded">Cancel</button>
+        <button onClick={onDone} disabled={markup.shapes.length === 0} className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-50">
+          Apply Markup
+        </button>
+      </div>
+    </div>
+  );
+}
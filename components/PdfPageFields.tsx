@@ -0,0 +1,67 @@
+import React from "react";
+import { PageFit, PageOrientation, PAPER_SIZES, PdfPageOptions } from "../utils/pdf";
+
+interface PdfPageFieldsProps {
+  options: PdfPageOptions;
+  onChange: (options: PdfPageOptions) => void;
+}
+
+const ORIENTATIONS: { id: PageOrientation; name: string }[] = [
+  { id: "auto", name: "Auto" },
+  { id: "portrait", name: "Portrait" },
+  { id: "landscape", name: "Landscape" },
+];
+
+const FITS: { id: PageFit; name: string }[] = [
+  { id: "fit", name: "Fit" },
+  { id: "fill", name: "Fill" },
+];
+
+const toggleClass = (active: boolean) =>
+  `flex-1 p-2 border rounded dark:border-gray-600 text-sm ${active ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`;
+
+// Paper, orientation, margins and fit for PDF pages
+export default function PdfPageFields({ options, onChange }: PdfPageFieldsProps) {
+  const update = (patch: Partial<PdfPageOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-2">
+        {PAPER_SIZES.map((p) => (
+          <button key={p.id} onClick={() => update({ paper: p.id })} className={toggleClass(options.paper === p.id)}>
+            {p.name}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {ORIENTATIONS.map((o) => (
+          <button key={o.id} onClick={() => update({ orientation: o.id })} className={toggleClass(options.orientation === o.id)}>
+            {o.name}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 items-center">
+        {FITS.map((f) => (
+          <button key={f.id} onClick={() => update({ fit: f.id })} className={toggleClass(options.fit === f.id)}>
+            {f.name}
+          </button>
+        ))}
+        <label className="flex-1 flex items-center gap-1 text-sm">
+          Margin
+          <input
+            type="number"
+            min={0}
+            max={50}
+            value={options.marginMM}
+            onChange={(e) => update({ marginMM: Math.max(0, Math.min(50, Number(e.target.value) || 0)) })}
+            className="w-16 p-1 rounded border dark:bg-gray-700 dark:border-gray-600"
+          />
+          mm
+        </label>
+      </div>
+      <p className="text-xs text-gray-400">
+        {options.fit === "fit" ? "The whole image is shown inside the margins." : "The image covers the page inside the margins; edges that don't fit are cropped."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useState } from "react";
+import { HistoryItem } from "../hooks/useHistoryStore";
+import { formatKB } from "../utils/compress";
+import { formatFilename, loadExportSettings, saveExportSettings } from "../utils/export";
+import { downloadBlob } from "../utils/image";
+import { buildPdf, PDF_MAX_DPI, PDF_MIME_TYPE, PdfBuildResult, PdfPageOptions } from "../utils/pdf";
+import PdfPageFields from "./PdfPageFields";
+
+interface PdfSetPanelProps {
+  // selected entries in page order
+  items: HistoryItem[];
+  onMove: (index: number, delta: number) => void;
+  onRemove: (index: number) => void;
+}
+
+const DEFAULT_LIMIT_KB = 1024;
+
+// Page order, layout and size limit for a PDF made from several saved images
+export default function PdfSetPanel({ items, onMove, onRemove }: PdfSetPanelProps) {
+  const [options, setOptions] = useState<PdfPageOptions>(() => loadExportSettings().pdf);
+  const [limited, setLimited] = useState(true);
+  const [limitKB, setLimitKB] = useState(DEFAULT_LIMIT_KB);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<PdfBuildResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const changeOptions = (next: PdfPageOptions) => {
+    setOptions(next);
+    setResult(null);
+  };
+
+  const create = async () => {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const settings = loadExportSettings();
+      saveExportSettings({ ...settings, pdf: options });
+      const built = await buildPdf(
+        items.map((item) => item.record.image),
+        { ...options, quality: settings.quality, maxKB: limited ? limitKB : null }
+      );
+      const first = items[0].record;
+      downloadBlob(built.blob, formatFilename(settings.filename, { width: first.width, height: first.height }, PDF_MIME_TYPE));
+      setResult(built);
+    } catch (err) {
+      console.error("PDF failed:", err);
+      setError(limited ? `Couldn't fit ${items.length} page(s) under ${formatKB(limitKB * 1024)}. Try a larger limit or fewer pages.` : "Couldn't create the PDF.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">PDF from {items.length} image(s)</h3>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-400">Tap images above in the order they should appear.</p>
+      ) : (
+        <ol className="flex flex-col gap-1">
+          {items.map(({ record, thumbnailUrl }, i) => (
+            <li key={record.id} className="flex items-center gap-2 text-sm">
+              <span className="w-5 text-right text-gray-400">{i + 1}</span>
+              <img src={thumbnailUrl} alt={`Page ${i + 1}`} className="w-10 h-10 object-cover rounded" />
+              <span className="flex-1 truncate">
+                {record.width} × {record.height}
+              </span>
+              <button onClick={() => onMove(i, -1)} disabled={i === 0} className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30">
+                ↑
+              </button>
+              <button onClick={() => onMove(i, 1)} disabled={i === items.length - 1} className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30">
+                ↓
+              </button>
+              <button onClick={() => onRemove(i)} className="px-2 py-1 rounded text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700">
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <PdfPageFields options={options} onChange={changeOptions} />
+
+      <div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={limited} onChange={(e) => setLimited(e.target.checked)} />
+          Keep the whole file under
+          <input
+            type="number"
+            min={50}
+            value={limitKB}
+            disabled={!limited}
+            onChange={(e) => setLimitKB(Math.max(50, Number(e.target.value) || 50))}
+            className="w-24 p-1 rounded border dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50"
+          />
+          KB
+        </label>
+        <p className="text-xs text-gray-400 mt-1">
+          Pages are stored at up to {PDF_MAX_DPI} DPI. A limit lowers the quality of every page equally, then their resolution if needed.
+        </p>
+      </div>
+
+      <button onClick={create} disabled={busy || items.length === 0} className="w-full bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+        {busy ? "Creating PDF..." : "Create PDF"}
+      </button>
+      {result && (
+        <p className="text-sm">
+          {formatKB(result.blob.size)} · quality {result.quality}
+          {result.scale < 1 ? ` · pages reduced to ${Math.round(result.scale * 100)}% size` : ""}
+        </p>
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <p className="text-xs text-gray-400">The PDF is made on this device; nothing is uploaded.</p>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { ComplianceIssue, DocumentPreset, DOCUMENT_PRESETS } from "../utils/presets";
+import { presetPhotoSize } from "../utils/printSheet";
+
+export interface PresetReport {
+  preset: DocumentPreset;
+  issues: ComplianceIssue[];
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+interface PresetPanelProps {
+  report: PresetReport | null;
+  onStart: (preset: DocumentPreset) => void;
+  onCheck: (preset: DocumentPreset) => void;
+  onExport: () => void;
+  // copies of the photo on a print sheet, at the preset's physical size
+  onPrint: () => void;
+  onDone: () => void;
+}
+
+const sizeWindow = (p: DocumentPreset) => (p.minKB ? `${p.minKB}–${p.maxKB} KB` : `≤ ${p.maxKB} KB`);
+
+// Government document photo presets: pick one to crop, resize and compress in one go
+export default function PresetPanel({ report, onStart, onCheck, onExport, onPrint, onDone }: PresetPanelProps) {
+  const [selected, setSelected] = useState<DocumentPreset | null>(report?.preset ?? null);
+
+  if (report) {
+    return (
+      <div className="flex flex-col gap-2">
+        <h3 className="text-lg font-bold">{report.preset.name}</h3>
+        <p className="text-sm">
+          {report.width} × {report.height} px · {(report.bytes / 1024).toFixed(1)} KB
+        </p>
+        {report.issues.length === 0 ? (
+          <p className="text-sm text-green-500">Meets the preset: dimensions, file size, format and background look right.</p>
+        ) : (
+          <ul className="text-sm text-red-400 list-disc pl-5">
+            {report.issues.map((issue) => (
+              <li key={issue.field}>{issue.message}</li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <button onClick={onDone} className="flex-1 p-2 border rounded dark:border-gray-600">Done</button>
+          <button onClick={onExport} className="flex-1 bg-blue-500 text-white p-2 rounded">Export file</button>
+        </div>
+        <p className="text-xs text-gray-400">Export encodes the file again, with any automatic watermark and kept metadata, so its size can differ a little from this check.</p>
+        {presetPhotoSize(report.preset) && (
+          <button onClick={onPrint} className="p-2 border rounded dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+            Print sheet ({report.preset.size})
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const categories = Array.from(new Set(DOCUMENT_PRESETS.map((p) => p.category)));
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Document Presets</h3>
+      <div className="max-h-64 overflow-y-auto flex flex-col gap-3">
+        {categories.map((cat) => (
+          <div key={cat}>
+            <p className="text-xs uppercase text-gray-400 mb-1">{cat}</p>
+            <div className="flex flex-col gap-1">
+              {DOCUMENT_PRESETS.filter((p) => p.category === cat).map((p) => (
+                <button
+                  key={p.id}
+                  onClick={() => setSelected(p)}
+                  className={`text-left p-2 border rounded dark:border-gray-600 ${selected?.id === p.id ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+                >
+                  <div className="text-sm font-semibold">{p.name}</div>
+                  <div className="text-xs opacity-80">
+                    {p.size} · {p.widthPx} × {p.heightPx} px · {sizeWindow(p)}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="text-xs text-gray-400">
+          <p>
+            {selected.dpi} DPI · {selected.background === "any" ? "any background" : `${selected.background} background`}
+          </p>
+          {selected.notes && <p>{selected.notes}</p>}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button disabled={!selected} onClick={() => selected && onCheck(selected)} className="flex-1 p-2 border rounded dark:border-gray-600 disabled:opacity-50">
+          Check current
+        </button>
+        <button disabled={!selected} onClick={() => selected && onStart(selected)} className="flex-1 bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+          Crop &amp; export
+        </button>
+      </div>
+    </div>
+  );
+}
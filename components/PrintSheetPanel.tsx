@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from "react";
+import { canvasToDataUrl, loadImage } from "../utils/image";
+import { PAPER_SIZES } from "../utils/pdf";
+import {
+  layoutSheet,
+  loadPrintSheetOptions,
+  PHOTO_SIZES,
+  PhotoSize,
+  PrintSheetOptions,
+  renderSheet,
+  SHEET_DPIS,
+  SHEET_SIZES,
+  SheetFormat,
+} from "../utils/printSheet";
+
+interface PrintSheetPanelProps {
+  previewUri: string;
+  // full-resolution size of the edited image
+  size: { width: number; height: number };
+  // physical size of the document preset in use, if any
+  presetSize: PhotoSize | null;
+  onSave: (options: PrintSheetOptions, format: SheetFormat) => void;
+}
+
+// the preview only needs enough detail to check the layout
+const PREVIEW_DPI = 60;
+const PREVIEW_DELAY = 200;
+
+const inputClass = "w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600";
+const toggleClass = (active: boolean) =>
+  `flex-1 p-2 border rounded dark:border-gray-600 text-sm ${active ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`;
+
+// Copies of the photo on a print sheet, at their physical size, with cut guides and captions
+export default function PrintSheetPanel({ previewUri, size, presetSize, onSave }: PrintSheetPanelProps) {
+  const [options, setOptions] = useState<PrintSheetOptions>(() => {
+    const saved = loadPrintSheetOptions();
+    return presetSize ? { ...saved, photoWidthMM: presetSize.widthMM, photoHeightMM: presetSize.heightMM } : saved;
+  });
+  const [preview, setPreview] = useState<string | null>(null);
+  const update = (patch: Partial<PrintSheetOptions>) => setOptions((o) => ({ ...o, ...patch }));
+
+  const layout = layoutSheet(options);
+  const photos = [presetSize, ...PHOTO_SIZES].filter((p): p is PhotoSize => !!p).filter((p, i, all) => all.findIndex((q) => q.name === p.name) === i);
+  const photoPx = { width: Math.round((options.photoWidthMM / 25.4) * options.dpi), height: Math.round((options.photoHeightMM / 25.4) * options.dpi) };
+  // each copy is cropped from the centre, so the limiting side decides the sharpness
+  const upscale = Math.max(photoPx.width / size.width, photoPx.height / size.height);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const img = await loadImage(previewUri);
+        const sheet = renderSheet(img, { ...options, dpi: PREVIEW_DPI });
+        if (!cancelled) setPreview(canvasToDataUrl(sheet, "image/jpeg", 0.8));
+      } catch (err) {
+        console.error("Sheet preview failed:", err);
+      }
+    }, PREVIEW_DELAY);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [previewUri, options]);
+
+  const mmInput = (value: number, onChange: (v: number) => void) => (
+    <input type="number" min={5} step={0.5} value={value} onChange={(e) => onChange(Math.max(5, Number(e.target.value) || 5))} className={inputClass} />
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Print Sheet</h3>
+
+      {preview && <img src={preview} alt="Sheet preview" className="max-h-48 mx-auto border dark:border-gray-600" />}
+      <p className="text-sm text-center">
+        {layout.cells.length} {layout.cells.length === 1 ? "copy" : "copies"} ({layout.columns} × {layout.rows}) · {layout.width} × {layout.height} px
+      </p>
+      {layout.cells.length === 0 && <p className="text-sm text-red-500">The photo doesn't fit on this sheet.</p>}
+
+      <div className="flex gap-2">
+        {SHEET_SIZES.map((id) => (
+          <button key={id} onClick={() => update({ sheet: id })} className={toggleClass(options.sheet === id)}>
+            {PAPER_SIZES.find((p) => p.id === id)!.name}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-sm mb-1">Photo size</p>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {photos.map((p) => (
+            <button
+              key={p.name}
+              onClick={() => update({ photoWidthMM: p.widthMM, photoHeightMM: p.heightMM })}
+              className={toggleClass(p.widthMM === options.photoWidthMM && p.heightMM === options.photoHeightMM)}
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          {mmInput(options.photoWidthMM, (photoWidthMM) => update({ photoWidthMM }))}
+          <span>×</span>
+          {mmInput(options.photoHeightMM, (photoHeightMM) => update({ photoHeightMM }))}
+          <span>mm</span>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {SHEET_DPIS.map((dpi) => (
+          <button key={dpi} onClick={() => update({ dpi })} className={toggleClass(options.dpi === dpi)}>
+            {dpi} DPI
+          </button>
+        ))}
+      </div>
+      {upscale > 1.05 && (
+        <p className="text-xs text-yellow-500">
+          Each copy needs {photoPx.width} × {photoPx.height} px at {options.dpi} DPI; this image has less, so prints may look soft.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <label className="flex-1 text-sm">
+          Spacing (mm)
+          <input
+            type="number"
+            min={0}
+            max={20}
+            step={0.5}
+            value={options.spacingMM}
+            onChange={(e) => update({ spacingMM: Math.max(0, Math.min(20, Number(e.target.value) || 0)) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex-1 text-sm">
+          Copies (0 = fill)
+          <input type="number" min={0} value={options.copies} onChange={(e) => update({ copies: Math.max(0, Math.round(Number(e.target.value) || 0)) })} className={inputClass} />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={options.cutGuides} onChange={(e) => update({ cutGuides: e.target.checked })} />
+        Cut guides
+      </label>
+
+      <label className="text-sm">
+        Caption under each copy
+        <input type="text" value={options.caption} placeholder="e.g. your name" onChange={(e) => update({ caption: e.target.value })} className={inputClass} />
+      </label>
+
+      <div className="flex gap-2">
+        <button onClick={() => onSave(options, "jpeg")} disabled={layout.cells.length === 0} className="flex-1 bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+          Save image
+        </button>
+        <button onClick={() => onSave(options, "pdf")} disabled={layout.cells.length === 0} className="flex-1 bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+          Save PDF
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">Print at 100% / actual size so each copy comes out at {options.photoWidthMM} × {options.photoHeightMM} mm.</p>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useImageViewport } from "../hooks/useImageViewport";
+import { createCanvas } from "../utils/image";
+import { applyRedaction, REDACT_STYLES, RedactRegion, RedactStyle } from "../utils/redact";
+
+interface RedactToolProps {
+  image: string;
+  imageWidth: number;
+  imageHeight: number;
+  onDone: (regions: RedactRegion[], style: RedactStyle, color: string) => void;
+  onCancel: () => void;
+}
+
+type Shape = RedactRegion["shape"];
+
+const FILL_COLORS = ["#000000", "#ffffff"];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Mark regions with boxes or a brush; the preview shows the actual redaction that will be applied
+export default function RedactTool({ image, imageWidth, imageHeight, onDone, onCancel }: RedactToolProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const iw = Math.max(1, imageWidth);
+  const ih = Math.max(1, imageHeight);
+  const { view, measure } = useImageViewport(containerRef, imgRef, iw, ih);
+  const [regions, setRegions] = useState<RedactRegion[]>([]);
+  const [shape, setShape] = useState<Shape>("rect");
+  const [style, setStyle] = useState<RedactStyle>("pixelate");
+  const [color, setColor] = useState(FILL_COLORS[0]);
+  // brush radius as a fraction of the shorter side
+  const [radius, setRadius] = useState(0.02);
+  // region being dragged out, shown as an outline until released
+  const [pending, setPending] = useState<RedactRegion | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const shownW = iw * view.scale;
+  const shownH = ih * view.scale;
+
+  // render the redaction on the preview image with the same code as the export
+  useEffect(() => {
+    const img = imgRef.current;
+    const canvas = canvasRef.current;
+    if (!img || !canvas || !img.naturalWidth) return;
+    const source = createCanvas(img.naturalWidth, img.naturalHeight);
+    source.ctx.drawImage(img, 0, 0);
+    const result = regions.length ? applyRedaction(source.canvas, regions, style, color) : source.canvas;
+    canvas.width = result.width;
+    canvas.height = result.height;
+    canvas.getContext("2d")?.drawImage(result, 0, 0);
+  }, [regions, style, color, view]);
+
+  const toImage = (e: React.PointerEvent) => {
+    const c = containerRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - c.left - view.left) / shownW), y: clamp01((e.clientY - c.top - view.top) / shownH) };
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!e.isPrimary) return;
+    containerRef.current?.setPointerCapture(e.pointerId);
+    const at = toImage(e);
+    startRef.current = at;
+    setPending(shape === "rect" ? { shape, rect: { x: at.x, y: at.y, w: 0, h: 0 } } : { shape, points: [at], radius });
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start || !e.isPrimary) return;
+    const at = toImage(e);
+    setPending((p) => {
+      if (!p) return p;
+      if (p.shape === "brush") return { ...p, points: [...p.points, at] };
+      return { shape: "rect", rect: { x: Math.min(start.x, at.x), y: Math.min(start.y, at.y), w: Math.abs(at.x - start.x), h: Math.abs(at.y - start.y) } };
+    });
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    if (!startRef.current) return;
+    containerRef.current?.releasePointerCapture?.(e.pointerId);
+    startRef.current = null;
+    // ignore taps that didn't drag out a box
+    if (pending && (pending.shape === "brush" || (pending.rect.w > 0.005 && pending.rect.h > 0.005))) setRegions((r) => [...r, pending]);
+    setPending(null);
+  };
+
+  const buttonClass = (active: boolean) => `px-2 py-1 text-xs rounded ${active ? "bg-blue-600 text-white" : "bg-gray-700 hover:bg-gray-600"}`;
+  const brushWidth = (radius: number) => radius * 2 * Math.min(shownW, shownH);
+
+  return (
+    <div className="flex-1 flex flex-col gap-2">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden"
+        style={{ height: 260, touchAction: "none", cursor: "crosshair" }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        <img
+          ref={imgRef}
+          src={image}
+          alt="redact preview"
+          className="w-full h-full object-contain pointer-events-none invisible"
+          draggable={false}
+          onLoad={measure}
+        />
+        <canvas ref={canvasRef} className="absolute pointer-events-none" style={{ left: view.left, top: view.top, width: shownW, height: shownH }} />
+        {pending && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none">
+            <g transform={`translate(${view.left} ${view.top})`}>
+              {pending.shape === "rect" ? (
+                <rect
+                  x={pending.rect.x * shownW}
+                  y={pending.rect.y * shownH}
+                  width={pending.rect.w * shownW}
+                  height={pending.rect.h * shownH}
+                  fill="rgba(239,68,68,0.3)"
+                  stroke="#ef4444"
+                  strokeWidth={2}
+                />
+              ) : (
+                <polyline
+                  points={pending.points.map((p) => `${p.x * shownW},${p.y * shownH}`).join(" ")}
+                  fill="none"
+                  stroke="rgba(239,68,68,0.5)"
+                  strokeWidth={brushWidth(pending.radius)}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              )}
+            </g>
+          </svg>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <button onClick={() => setShape("rect")} className={buttonClass(shape === "rect")}>Box</button>
+        <button onClick={() => setShape("brush")} className={buttonClass(shape === "brush")}>Brush</button>
+        {shape === "brush" && (
+          <label className="flex items-center gap-1 text-xs">
+            Size
+            <input type="range" min={5} max={60} value={Math.round(radius * 1000)} onChange={(e) => setRadius(Number(e.target.value) / 1000)} />
+          </label>
+        )}
+        <div className="flex-1" />
+        <button onClick={() => setRegions((r) => r.slice(0, -1))} disabled={regions.length === 0} className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+          Undo
+        </button>
+        <button onClick={() => setRegions([])} disabled={regions.length === 0} className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+          Clear
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {REDACT_STYLES.map((s) => (
+          <button key={s.id} onClick={() => setStyle(s.id)} className={buttonClass(style === s.id)}>
+            {s.name}
+          </button>
+        ))}
+        {style === "fill" &&
+          FILL_COLORS.map((c) => (
+            <button
+              key={c}
+              onClick={() => setColor(c)}
+              className={`w-6 h-6 rounded border-2 ${color === c ? "border-blue-400" : "border-gray-600"}`}
+              style={{ background: c }}
+              title={c}
+            />
+          ))}
+      </div>
+      <p className="text-xs text-gray-400">Redacted pixels are replaced, not hidden: they can't be recovered from the exported image.</p>
+
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-600 rounded">Cancel</button>
+        <button onClick={() => onDone(regions, style, color)} disabled={regions.length === 0} className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-50">
+          Apply Redaction
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { fromPixels, ResampleQuality, SizeUnit, toPixels } from "../utils/resize";
+
+interface ResizePanelProps {
+  naturalWidth: number;
+  naturalHeight: number;
+  onApply: (width: number, height: number, quality: ResampleQuality) => void;
+}
+
+const round = (v: number, unit: SizeUnit) => (unit === "px" ? Math.round(v) : Math.round(v * 100) / 100);
+
+// Exact-size resize: pixels, or physical size (mm / inches) at a DPI
+export default function ResizePanel({ naturalWidth, naturalHeight, onApply }: ResizePanelProps) {
+  const [unit, setUnit] = useState<SizeUnit>("px");
+  const [dpi, setDpi] = useState(300);
+  const [width, setWidth] = useState(naturalWidth);
+  const [height, setHeight] = useState(naturalHeight);
+  const [lockAspect, setLockAspect] = useState(true);
+  const [quality, setQuality] = useState<ResampleQuality>("high");
+
+  const aspect = naturalWidth / naturalHeight;
+  const pxW = toPixels(width, unit, dpi);
+  const pxH = toPixels(height, unit, dpi);
+  const valid = pxW > 0 && pxH > 0 && pxW <= 16384 && pxH <= 16384;
+
+  const changeWidth = (v: number) => {
+    setWidth(v);
+    if (lockAspect) setHeight(round(v / aspect, unit));
+  };
+  const changeHeight = (v: number) => {
+    setHeight(v);
+    if (lockAspect) setWidth(round(v * aspect, unit));
+  };
+
+  // keep the same pixel size when switching units
+  const changeUnit = (next: SizeUnit) => {
+    setWidth(round(fromPixels(pxW, next, dpi), next));
+    setHeight(round(fromPixels(pxH, next, dpi), next));
+    setUnit(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Resize</h3>
+      <p className="text-xs text-gray-400">Current: {naturalWidth} × {naturalHeight} px</p>
+
+      <div className="flex gap-2">
+        {(["px", "mm", "in"] as SizeUnit[]).map((u) => (
+          <button
+            key={u}
+            onClick={() => changeUnit(u)}
+            className={`flex-1 p-2 border rounded dark:border-gray-600 ${unit === u ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+          >
+            {u}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 items-end">
+        <label className="flex-1 text-sm">
+          Width ({unit})
+          <input type="number" min={0} step={unit === "px" ? 1 : 0.1} value={width} onChange={(e) => changeWidth(Number(e.target.value))} className="w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600" />
+        </label>
+        <label className="flex-1 text-sm">
+          Height ({unit})
+          <input type="number" min={0} step={unit === "px" ? 1 : 0.1} value={height} onChange={(e) => changeHeight(Number(e.target.value))} className="w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600" />
+        </label>
+      </div>
+
+      {unit !== "px" && (
+        <label className="text-sm">
+          DPI
+          <input type="number" min={1} value={dpi} onChange={(e) => setDpi(Number(e.target.value) || 0)} className="w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600" />
+        </label>
+      )}
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={lockAspect} onChange={(e) => setLockAspect(e.target.checked)} />
+        Lock aspect ratio
+      </label>
+
+      <label className="text-sm">
+        Resampling
+        <select value={quality} onChange={(e) => setQuality(e.target.value as ResampleQuality)} className="w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600">
+          <option value="high">High (smooth)</option>
+          <option value="medium">Medium</option>
+          <option value="low">Fast (pixelated)</option>
+        </select>
+      </label>
+
+      <p className="text-sm">Output: {pxW} × {pxH} px</p>
+      <button disabled={!valid} onClick={() => onApply(pxW, pxH, quality)} className="w-full bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+        Apply Resize
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+
+interface RotatePanelProps {
+  // live preview, including the straighten angle being adjusted
+  previewUri: string;
+  onRotate: (degrees: 90 | 180 | 270) => void;
+  onFlip: (axis: "horizontal" | "vertical") => void;
+  onStraightenChange: (angle: number) => void;
+  onStraighten: (angle: number) => void;
+}
+
+const MAX_ANGLE = 45;
+
+// Quarter turns and flips apply at once; straighten is previewed under a grid until applied
+export default function RotatePanel({ previewUri, onRotate, onFlip, onStraightenChange, onStraighten }: RotatePanelProps) {
+  const [angle, setAngle] = useState(0);
+
+  const changeAngle = (value: number) => {
+    const next = Math.round(Math.min(MAX_ANGLE, Math.max(-MAX_ANGLE, value)) * 10) / 10;
+    setAngle(next);
+    onStraightenChange(next);
+  };
+
+  const buttonClass = "p-2 border rounded dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 text-sm";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Rotate & Flip</h3>
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={() => onRotate(270)} className={buttonClass}>↺ 90°</button>
+        <button onClick={() => onRotate(90)} className={buttonClass}>↻ 90°</button>
+        <button onClick={() => onRotate(180)} className={buttonClass}>180°</button>
+        <button onClick={() => onFlip("horizontal")} className={buttonClass}>Flip H</button>
+        <button onClick={() => onFlip("vertical")} className={buttonClass}>Flip V</button>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-bold mb-1">Straighten</h4>
+        <div className="relative mx-auto w-fit">
+          <img src={previewUri} alt="Straighten preview" className="max-h-48 max-w-full object-contain block" />
+          {/* alignment grid: line up horizons and document edges with it */}
+          <div
+            className="absolute inset-0 pointer-events-none"
+            style={{
+              backgroundImage:
+                "linear-gradient(to right, rgba(255,255,255,0.45) 1px, transparent 1px), linear-gradient(to bottom, rgba(255,255,255,0.45) 1px, transparent 1px)",
+              backgroundSize: "12.5% 12.5%",
+            }}
+          />
+        </div>
+        <div className="flex items-center gap-2 mt-2">
+          <button onClick={() => changeAngle(angle - 0.1)} className="px-2 border rounded dark:border-gray-600">−</button>
+          <input type="range" min={-MAX_ANGLE} max={MAX_ANGLE} step={0.1} value={angle} onChange={(e) => changeAngle(Number(e.target.value))} className="flex-1" />
+          <button onClick={() => changeAngle(angle + 0.1)} className="px-2 border rounded dark:border-gray-600">+</button>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <span>{angle > 0 ? "+" : ""}{angle.toFixed(1)}°</span>
+          <button onClick={() => changeAngle(0)} className="text-xs text-gray-400 underline">Reset</button>
+        </div>
+        <p className="text-xs text-gray-400">The edges are cropped so no empty corners are left.</p>
+      </div>
+
+      <button disabled={angle === 0} onClick={() => onStraighten(angle)} className="w-full bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+        Apply Straighten
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useRef, useState } from "react";
+import { useImageViewport } from "../hooks/useImageViewport";
+import { defaultQuad, detectDocumentCorners, PAPER_SIZES, PaperId, Quad, ScanMode } from "../utils/perspective";
+
+interface ScanToolProps {
+  image: string;
+  imageWidth: number;
+  imageHeight: number;
+  onScanDone: (quad: Quad, paper: PaperId, mode: ScanMode | null) => void;
+  onCancel: () => void;
+}
+
+const MODES: { id: ScanMode | null; name: string }[] = [
+  { id: null, name: "Original" },
+  { id: "clean", name: "Clean scan" },
+  { id: "bw", name: "Black & white" },
+];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Document scanner: place four corners on the page (or take the detected ones) and flatten it
+export default function ScanTool({ image, imageWidth, imageHeight, onScanDone, onCancel }: ScanToolProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const iw = Math.max(1, imageWidth);
+  const ih = Math.max(1, imageHeight);
+  const { view, measure } = useImageViewport(containerRef, imgRef, iw, ih);
+  const [quad, setQuad] = useState<Quad>(defaultQuad);
+  const [detected, setDetected] = useState<boolean | null>(null);
+  const [paper, setPaper] = useState<PaperId>("auto");
+  const [mode, setMode] = useState<ScanMode | null>("clean");
+  const dragRef = useRef<number | null>(null);
+
+  const detect = () => {
+    const img = imgRef.current;
+    if (!img || !img.naturalWidth) return;
+    const found = detectDocumentCorners(img, img.naturalWidth, img.naturalHeight);
+    setDetected(!!found);
+    if (found) setQuad(found);
+  };
+
+  const handleLoad = () => {
+    measure();
+    detect();
+  };
+
+  const toScreen = (p: { x: number; y: number }) => ({ x: view.left + p.x * iw * view.scale, y: view.top + p.y * ih * view.scale });
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const index = dragRef.current;
+    if (index === null || !containerRef.current) return;
+    const c = containerRef.current.getBoundingClientRect();
+    const x = clamp01((e.clientX - c.left - view.left) / (iw * view.scale));
+    const y = clamp01((e.clientY - c.top - view.top) / (ih * view.scale));
+    setQuad((q) => q.map((p, i) => (i === index ? { x, y } : p)) as Quad);
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    containerRef.current?.releasePointerCapture?.(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const corners = quad.map(toScreen);
+
+  return (
+    <div className="flex-1 flex flex-col gap-2">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden"
+        style={{ height: 260, touchAction: "none" }}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        <img ref={imgRef} src={image} alt="scan preview" className="w-full h-full object-contain pointer-events-none" draggable={false} onLoad={handleLoad} />
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <polygon points={corners.map((p) => `${p.x},${p.y}`).join(" ")} fill="rgba(59,130,246,0.15)" stroke="#60a5fa" strokeWidth={2} />
+        </svg>
+        {corners.map((p, i) => (
+          <div
+            key={i}
+            className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white bg-blue-500/70"
+            style={{ left: p.x, top: p.y, cursor: "move" }}
+            onPointerDown={(e) => {
+              dragRef.current = i;
+              containerRef.current?.setPointerCapture(e.pointerId);
+            }}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <span className="flex-1">
+          {detected === null ? "Drag the corners onto the page." : detected ? "Page edges detected — adjust the corners if needed." : "No page found — drag the corners onto it."}
+        </span>
+        <button onClick={detect} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Auto detect</button>
+        <button onClick={() => setQuad(defaultQuad())} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Reset</button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {PAPER_SIZES.map((p) => (
+          <button
+            key={p.id}
+            onClick={() => setPaper(p.id)}
+            className={`px-2 py-1 text-xs rounded ${paper === p.id ? "bg-blue-600 text-white" : "bg-gray-700 hover:bg-gray-600"}`}
+          >
+            {p.name}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {MODES.map((m) => (
+          <button
+            key={m.name}
+            onClick={() => setMode(m.id)}
+            className={`px-2 py-1 text-xs rounded ${mode === m.id ? "bg-blue-600 text-white" : "bg-gray-700 hover:bg-gray-600"}`}
+          >
+            {m.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-600 rounded">Cancel</button>
+        <button onClick={() => onScanDone(quad, paper, mode)} className="px-4 py-2 bg-blue-600 text-white rounded">Flatten</button>
+      </div>
+    </div>
+  );
+}
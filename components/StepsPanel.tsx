@@ -0,0 +1,37 @@
+import React from "react";
+import { describeOperation, EditOperation } from "../utils/pipeline";
+import { TrashIcon } from "./icons";
+
+interface StepsPanelProps {
+  operations: EditOperation[];
+  onRemove: (index: number) => void;
+  onEditAdjust: (index: number) => void;
+}
+
+// Ordered list of edit operations; earlier steps can be changed or dropped after later ones
+export default function StepsPanel({ operations, onRemove, onEditAdjust }: StepsPanelProps) {
+  return (
+    <div>
+      <h3 className="text-lg font-bold mb-4">Edit Steps</h3>
+      {operations.length === 0 ? (
+        <p className="text-sm text-gray-400">No edits yet.</p>
+      ) : (
+        <ol className="flex flex-col gap-1 max-h-72 overflow-y-auto">
+          {operations.map((op, i) => (
+            <li key={i} className="flex items-center gap-2 p-2 border rounded dark:border-gray-600">
+              <span className="text-xs text-gray-400 w-5">{i + 1}</span>
+              <span className="flex-1 text-sm">{describeOperation(op)}</span>
+              {op.type === "adjust" && (
+                <button onClick={() => onEditAdjust(i)} className="px-2 py-1 text-xs rounded bg-blue-500 text-white">Edit</button>
+              )}
+              <button onClick={() => onRemove(i)} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700" title="Remove step">
+                <TrashIcon className="w-4 h-4 text-red-500" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <p className="text-xs text-gray-400 mt-2">Steps are re-applied to the original, so changing one doesn't degrade the others.</p>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useImageViewport } from "../hooks/useImageViewport";
+import { createTextBox, drawTextBox, FONTS, FontId, measureTextBox, TextAlign, TextBox } from "../utils/text";
+
+interface TextToolProps {
+  image: string;
+  imageWidth: number;
+  imageHeight: number;
+  onDone: (boxes: TextBox[]) => void;
+  onCancel: () => void;
+}
+
+type Drag = { mode: "move" | "scale" | "rotate"; id: string; startX: number; startY: number; start: TextBox; cx: number; cy: number };
+
+// name/date strip under a portrait, e.g. for passport photo submissions
+const STRIP_TEMPLATE: Partial<TextBox> = {
+  text: "NAME SURNAME\nDOB: DD/MM/YYYY",
+  y: 0.9,
+  size: 0.045,
+  color: "#000000",
+  outline: null,
+  background: "#ffffff",
+};
+
+const inputClass = "p-1 rounded bg-gray-700 border border-gray-600 text-sm";
+
+// Place, edit, move, rotate and scale text boxes; they are drawn with the same code as the export
+export default function TextTool({ image, imageWidth, imageHeight, onDone, onCancel }: TextToolProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const iw = Math.max(1, imageWidth);
+  const ih = Math.max(1, imageHeight);
+  const { view, measure } = useImageViewport(containerRef, imgRef, iw, ih);
+  const [boxes, setBoxes] = useState<TextBox[]>(() => [createTextBox()]);
+  const [selectedId, setSelectedId] = useState<string | null>(() => boxes[0].id);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const selected = boxes.find((b) => b.id === selectedId) ?? null;
+  const shownW = iw * view.scale;
+  const shownH = ih * view.scale;
+
+  const updateBox = (id: string, patch: Partial<TextBox>) => setBoxes((bs) => bs.map((b) => (b.id === id ? { ...b, ...patch } : b)));
+  const updateSelected = (patch: Partial<TextBox>) => selected && updateBox(selected.id, patch);
+
+  // redraw the on-screen text with the export renderer, at screen resolution
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = container.clientWidth * dpr;
+    canvas.height = container.clientHeight * dpr;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(dpr, dpr);
+    ctx.translate(view.left, view.top);
+    for (const box of boxes) if (box.id !== editingId) drawTextBox(ctx, box, shownW, shownH);
+  }, [boxes, view, editingId, shownW, shownH]);
+
+  const addBox = (patch: Partial<TextBox> = {}) => {
+    const box = createTextBox(patch);
+    setBoxes((bs) => [...bs, box]);
+    setSelectedId(box.id);
+  };
+
+  const removeSelected = () => {
+    if (!selected) return;
+    setBoxes((bs) => bs.filter((b) => b.id !== selected.id));
+    setSelectedId(null);
+  };
+
+  const startDrag = (mode: Drag["mode"], box: TextBox, e: React.PointerEvent) => {
+    e.stopPropagation();
+    setSelectedId(box.id);
+    const c = containerRef.current!.getBoundingClientRect();
+    containerRef.current!.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      mode,
+      id: box.id,
+      startX: e.clientX,
+      startY: e.clientY,
+      start: box,
+      cx: c.left + view.left + box.x * shownW,
+      cy: c.top + view.top + box.y * shownH,
+    };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { start } = drag;
+    if (drag.mode === "move") {
+      updateBox(drag.id, {
+        x: Math.min(1, Math.max(0, start.x + (e.clientX - drag.startX) / shownW)),
+        y: Math.min(1, Math.max(0, start.y + (e.clientY - drag.startY) / shownH)),
+      });
+    } else if (drag.mode === "scale") {
+      const ratio = Math.hypot(e.clientX - drag.cx, e.clientY - drag.cy) / Math.max(1, Math.hypot(drag.startX - drag.cx, drag.startY - drag.cy));
+      updateBox(drag.id, { size: Math.min(0.5, Math.max(0.01, start.size * ratio)) });
+    } else {
+      // the handle sits above the box, so straight up is 0°; snap near level
+      let angle = (Math.atan2(e.clientY - drag.cy, e.clientX - drag.cx) * 180) / Math.PI + 90;
+      if (angle > 180) angle -= 360;
+      updateBox(drag.id, { rotation: Math.abs(angle) < 3 ? 0 : Math.round(angle) });
+    }
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    containerRef.current?.releasePointerCapture?.(e.pointerId);
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-2">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden"
+        style={{ height: 260, touchAction: "none" }}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onPointerDown={() => {
+          setSelectedId(null);
+          setEditingId(null);
+        }}
+      >
+        <img ref={imgRef} src={image} alt="text preview" className="w-full h-full object-contain pointer-events-none" draggable={false} onLoad={measure} />
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+        {boxes.map((box) => {
+          const size = measureTextBox(box, shownH);
+          const isSelected = box.id === selectedId;
+          return (
+            <div
+              key={box.id}
+              className={`absolute ${isSelected ? "border border-dashed border-blue-400" : ""}`}
+              style={{
+                left: view.left + box.x * shownW - size.width / 2,
+                top: view.top + box.y * shownH - size.height / 2,
+                width: size.width,
+                height: size.height,
+                transform: `rotate(${box.rotation}deg)`,
+                cursor: "move",
+              }}
+              onPointerDown={(e) => startDrag("move", box, e)}
+              onDoubleClick={() => setEditingId(box.id)}
+            >
+              {editingId === box.id && (
+                <textarea
+                  autoFocus
+                  value={box.text}
+                  onChange={(e) => updateBox(box.id, { text: e.target.value })}
+                  onBlur={() => setEditingId(null)}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  className="absolute inset-0 w-full h-full resize-none bg-white/80 text-black p-0 leading-tight"
+                  style={{ fontSize: size.px * 0.8, textAlign: box.align }}
+                />
+              )}
+              {isSelected && editingId !== box.id && (
+                <>
+                  <div
+                    className="absolute w-4 h-4 rounded-full bg-white border-2 border-blue-500"
+                    style={{ left: "calc(50% - 8px)", top: -28, cursor: "grab" }}
+                    onPointerDown={(e) => startDrag("rotate", box, e)}
+                  />
+                  <div
+                    className="absolute w-4 h-4 rounded bg-white"
+                    style={{ right: -8, bottom: -8, cursor: "nwse-resize" }}
+                    onPointerDown={(e) => startDrag("scale", box, e)}
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => addBox()} className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600">+ Text</button>
+        <button onClick={() => addBox(STRIP_TEMPLATE)} className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600">+ Name / DOB strip</button>
+        {selected && (
+          <>
+            <button onClick={() => setEditingId(selected.id)} className="px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600">Edit text</button>
+            <button onClick={removeSelected} className="px-2 py-1 text-xs rounded bg-red-600 text-white">Delete</button>
+          </>
+        )}
+      </div>
+
+      {selected && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <select value={selected.font} onChange={(e) => updateSelected({ font: e.target.value as FontId })} className={inputClass}>
+            {FONTS.map((f) => (
+              <option key={f.id} value={f.id}>{f.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            Size
+            <input type="range" min={1} max={30} value={Math.round(selected.size * 100)} onChange={(e) => updateSelected({ size: Number(e.target.value) / 100 })} />
+          </label>
+          <input type="color" value={selected.color} onChange={(e) => updateSelected({ color: e.target.value })} title="Text colour" />
+          <button onClick={() => updateSelected({ bold: !selected.bold })} className={`px-2 py-1 rounded font-bold ${selected.bold ? "bg-blue-600 text-white" : "bg-gray-700"}`}>B</button>
+          {(["left", "center", "right"] as TextAlign[]).map((a) => (
+            <button key={a} onClick={() => updateSelected({ align: a })} className={`px-2 py-1 rounded capitalize ${selected.align === a ? "bg-blue-600 text-white" : "bg-gray-700"}`}>
+              {a}
+            </button>
+          ))}
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={!!selected.outline} onChange={(e) => updateSelected({ outline: e.target.checked ? { color: "#000000", width: 0.08 } : null })} />
+            Outline
+          </label>
+          {selected.outline && (
+            <input type="color" value={selected.outline.color} onChange={(e) => updateSelected({ outline: { ...selected.outline!, color: e.target.value } })} title="Outline colour" />
+          )}
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={selected.shadow} onChange={(e) => updateSelected({ shadow: e.target.checked })} />
+            Shadow
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={!!selected.background} onChange={(e) => updateSelected({ background: e.target.checked ? "#ffffff" : null })} />
+            Background
+          </label>
+          {selected.background && (
+            <input type="color" value={selected.background} onChange={(e) => updateSelected({ background: e.target.value })} title="Background colour" />
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-600 rounded">Cancel</button>
+        <button onClick={() => onDone(boxes.filter((b) => b.text.trim()))} disabled={!boxes.some((b) => b.text.trim())} className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-50">
+          Apply Text
+        </button>
+      </div>
+    </div>
+  );
+}
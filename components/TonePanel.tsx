@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from "react";
+import { loadImage } from "../utils/image";
+import { autoLevels, computeHistogram, CurveChannel, curveLut, CurvePoint, defaultTone, Histogram, ToneSettings } from "../utils/levels";
+
+interface TonePanelProps {
+  // current preview; the histogram follows it as the tone changes
+  source: string;
+  value: ToneSettings;
+  onChange: (value: ToneSettings) => void;
+}
+
+// histograms are taken from a small copy of the preview
+const HISTOGRAM_SIZE = 256;
+
+const CHANNELS: { id: CurveChannel; name: string; color: string }[] = [
+  { id: "rgb", name: "RGB", color: "#e5e7eb" },
+  { id: "r", name: "R", color: "#ef4444" },
+  { id: "g", name: "G", color: "#22c55e" },
+  { id: "b", name: "B", color: "#3b82f6" },
+];
+
+const loadHistogram = async (src: string) => {
+  const img = await loadImage(src);
+  const t = Math.min(1, HISTOGRAM_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  return computeHistogram(img, Math.max(1, Math.round(img.naturalWidth * t)), Math.max(1, Math.round(img.naturalHeight * t)));
+};
+
+const histogramPath = (bins: Uint32Array, max: number, height: number) => {
+  let d = `M0 ${height}`;
+  for (let v = 0; v < 256; v++) d += ` L${v} ${height - (Math.min(max, bins[v]) / max) * height}`;
+  return `${d} L255 ${height} Z`;
+};
+
+// Levels, per-channel tone curves and a live histogram for the Enhance panel
+export default function TonePanel({ source, value, onChange }: TonePanelProps) {
+  // auto levels works from the image as it was before this panel touched it
+  const [baseSource] = useState(source);
+  const [channel, setChannel] = useState<CurveChannel>("rgb");
+  const [baseHistogram, setBaseHistogram] = useState<Histogram | null>(null);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const dragRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    loadHistogram(baseSource).then(setBaseHistogram).catch((err) => console.error("Histogram failed:", err));
+  }, [baseSource]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadHistogram(source)
+      .then((h) => !cancelled && setHistogram(h))
+      .catch(() => undefined); // superseded previews are revoked mid-load
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  const setLevels = (patch: Partial<ToneSettings["levels"]>) => onChange({ ...value, levels: { ...value.levels, ...patch } });
+  const setCurve = (points: CurvePoint[]) => onChange({ ...value, curves: { ...value.curves, [channel]: points } });
+
+  const points = value.curves[channel];
+  const lut = curveLut(points);
+  const curvePath = Array.from(lut, (y, x) => `${x === 0 ? "M" : "L"}${x} ${255 - y}`).join(" ");
+
+  const toCurve = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.round(((e.clientX - rect.left) / rect.width) * 255);
+    const y = Math.round(255 - ((e.clientY - rect.top) / rect.height) * 255);
+    return [Math.min(255, Math.max(0, x)), Math.min(255, Math.max(0, y))];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const [x, y] = toCurve(e);
+    // grab a nearby point, otherwise add one
+    let index = points.findIndex(([px, py]) => Math.abs(px - x) < 10 && Math.abs(py - y) < 10);
+    if (index === -1) {
+      index = points.findIndex(([px]) => px > x);
+      if (index <= 0) return;
+      setCurve([...points.slice(0, index), [x, y], ...points.slice(index)]);
+    }
+    dragRef.current = index;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragRef.current;
+    if (index === null) return;
+    const [x, y] = toCurve(e);
+    const last = points.length - 1;
+    // end points only move vertically; inner points stay between their neighbours
+    const nx = index === 0 ? 0 : index === last ? 255 : Math.min(points[index + 1][0] - 1, Math.max(points[index - 1][0] + 1, x));
+    setCurve(points.map((p, i) => (i === index ? [nx, y] : p)));
+  };
+
+  const handleDoubleClick = (index: number) => {
+    if (index === 0 || index === points.length - 1) return;
+    setCurve(points.filter((_, i) => i !== index));
+  };
+
+  const max = histogram ? Math.max(1, ...Array.from(histogram.luma).slice(1, 255)) : 1;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <svg viewBox="0 0 255 60" preserveAspectRatio="none" className="w-full h-16 bg-gray-900 rounded">
+        {histogram && (
+          <g style={{ mixBlendMode: "screen" }}>
+            <path d={histogramPath(histogram.r, max, 60)} fill="#ef4444" opacity={0.5} />
+            <path d={histogramPath(histogram.g, max, 60)} fill="#22c55e" opacity={0.5} />
+            <path d={histogramPath(histogram.b, max, 60)} fill="#3b82f6" opacity={0.5} />
+            <path d={histogramPath(histogram.luma, max, 60)} fill="none" stroke="#e5e7eb" strokeWidth={1} />
+          </g>
+        )}
+      </svg>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-bold">Levels</span>
+          <button
+            onClick={() => baseHistogram && setLevels(autoLevels(baseHistogram))}
+            disabled={!baseHistogram}
+            className="px-2 py-1 text-xs rounded bg-blue-500 text-white disabled:opacity-50"
+          >
+            Auto levels
+          </button>
+        </div>
+        <label className="text-sm">Black: {value.levels.black}</label>
+        <input type="range" min={0} max={value.levels.white - 1} value={value.levels.black} onChange={(e) => setLevels({ black: Number(e.target.value) })} className="w-full" />
+        <label className="text-sm">Gamma: {value.levels.gamma.toFixed(2)}</label>
+        <input type="range" min={0.2} max={3} step={0.01} value={value.levels.gamma} onChange={(e) => setLevels({ gamma: Number(e.target.value) })} className="w-full" />
+        <label className="text-sm">White: {value.levels.white}</label>
+        <input type="range" min={value.levels.black + 1} max={255} value={value.levels.white} onChange={(e) => setLevels({ white: Number(e.target.value) })} className="w-full" />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-bold">Curves</span>
+          <div className="flex gap-1">
+            {CHANNELS.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => setChannel(c.id)}
+                className={`px-2 py-0.5 text-xs rounded border dark:border-gray-600 ${channel === c.id ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+              >
+                {c.name}
+              </button>
+            ))}
+          </div>
+        </div>
+        <svg
+          ref={svgRef}
+          viewBox="0 0 255 255"
+          className="w-full max-w-[200px] mx-auto block aspect-square bg-gray-900 rounded touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerCancel={() => (dragRef.current = null)}
+        >
+          {[64, 128, 192].map((g) => (
+            <g key={g} stroke="#374151" strokeWidth={1}>
+              <line x1={g} y1={0} x2={g} y2={255} />
+              <line x1={0} y1={g} x2={255} y2={g} />
+            </g>
+          ))}
+          <line x1={0} y1={255} x2={255} y2={0} stroke="#4b5563" strokeDasharray="4 4" />
+          <path d={curvePath} fill="none" stroke={CHANNELS.find((c) => c.id === channel)!.color} strokeWidth={2} />
+          {points.map(([x, y], i) => (
+            <circle key={i} cx={x} cy={255 - y} r={6} fill="#111827" stroke="#fff" strokeWidth={2} onDoubleClick={() => handleDoubleClick(i)} />
+          ))}
+        </svg>
+        <p className="text-xs text-gray-400 mt-1">Tap to add a point, drag to shape, double-tap a point to remove it.</p>
+      </div>
+
+      <button onClick={() => onChange(defaultTone())} className="text-xs text-gray-400 underline self-start">
+        Reset levels & curves
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from "react";
+import { canvasToDataUrl, createCanvas, loadImage } from "../utils/image";
+import { canUpscale, maxUpscalePixels, UPSCALE_FACTORS, UpscaleFactor, upscaleCanvas } from "../utils/upscale";
+
+interface UpscalePanelProps {
+  previewUri: string;
+  // full-resolution size of the edited image
+  size: { width: number; height: number };
+  onApply: (factor: UpscaleFactor, sharpen: number) => void;
+}
+
+// side of the square from the middle of the preview that is compared
+const SAMPLE = 96;
+const PREVIEW_DELAY = 200;
+
+const toggleClass = (active: boolean) =>
+  `flex-1 p-2 border rounded dark:border-gray-600 disabled:opacity-50 ${active ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`;
+
+// Enlarge 2× or 4× for portals with minimum pixel sizes, comparing plain scaling with the
+// upscaled result on a close-up
+export default function UpscalePanel({ previewUri, size, onApply }: UpscalePanelProps) {
+  const allowed = UPSCALE_FACTORS.filter((f) => canUpscale(size.width, size.height, f));
+  const [factor, setFactor] = useState<UpscaleFactor>(allowed[0] ?? 2);
+  const [sharpen, setSharpen] = useState(60);
+  const [split, setSplit] = useState(50);
+  const [compare, setCompare] = useState<{ before: string; after: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const img = await loadImage(previewUri);
+        const side = Math.min(SAMPLE, img.naturalWidth, img.naturalHeight);
+        const crop = createCanvas(side, side);
+        crop.ctx.drawImage(img, (img.naturalWidth - side) / 2, (img.naturalHeight - side) / 2, side, side, 0, 0, side, side);
+        // the preview may already be smaller than the image, so compare at the detail it has
+        const before = createCanvas(side * factor, side * factor);
+        before.ctx.imageSmoothingQuality = "high";
+        before.ctx.drawImage(crop.canvas, 0, 0, before.canvas.width, before.canvas.height);
+        const after = upscaleCanvas(crop.canvas, factor, sharpen);
+        if (!cancelled) setCompare({ before: canvasToDataUrl(before.canvas, "image/png"), after: canvasToDataUrl(after, "image/png") });
+      } catch (err) {
+        console.error("Upscale preview failed:", err);
+      }
+    }, PREVIEW_DELAY);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [previewUri, factor, sharpen]);
+
+  const limitMP = Math.round(maxUpscalePixels() / 1e6);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Improve Quality</h3>
+
+      {compare && (
+        <div>
+          <div className="relative w-full aspect-square overflow-hidden rounded">
+            <img src={compare.before} alt="Before" className="absolute inset-0 w-full h-full" />
+            <img src={compare.after} alt="After" className="absolute inset-0 w-full h-full" style={{ clipPath: `inset(0 0 0 ${split}%)` }} />
+            <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+            <span className="absolute top-1 left-1 px-1 text-xs rounded bg-black/60 text-white">Before</span>
+            <span className="absolute top-1 right-1 px-1 text-xs rounded bg-black/60 text-white">After</span>
+          </div>
+          <input type="range" min={0} max={100} value={split} onChange={(e) => setSplit(Number(e.target.value))} className="w-full" aria-label="Before and after split" />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {UPSCALE_FACTORS.map((f) => (
+          <button key={f} onClick={() => setFactor(f)} disabled={!allowed.includes(f)} className={toggleClass(factor === f)}>
+            {f}×
+          </button>
+        ))}
+      </div>
+      <p className="text-sm">
+        {size.width} × {size.height} → {size.width * factor} × {size.height * factor} px
+      </p>
+      {allowed.length < UPSCALE_FACTORS.length && (
+        <p className="text-xs text-yellow-500">
+          {allowed.length === 0 ? "This image is already too large to upscale" : "4× would be too large"} on this device (limit about {limitMP} MP).
+        </p>
+      )}
+
+      <div>
+        <label className="text-sm">Detail sharpening: {sharpen}</label>
+        <input type="range" min={0} max={100} value={sharpen} onChange={(e) => setSharpen(Number(e.target.value))} className="w-full" />
+      </div>
+
+      <button onClick={() => onApply(factor, sharpen)} disabled={allowed.length === 0} className="w-full bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+        Upscale
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from "react";
+import { canvasToDataUrl, createCanvas, loadImage } from "../utils/image";
+import { decodeBlob } from "../utils/pipeline";
+import { createWatermark, renderWatermark, WATERMARK_ANCHORS, WatermarkTemplate } from "../utils/watermark";
+import { deleteWatermark, getAutoWatermarkId, listWatermarks, saveWatermark, setAutoWatermarkId } from "../utils/watermarkStore";
+
+interface WatermarkPanelProps {
+  previewUri: string;
+  onApply: (template: WatermarkTemplate) => void;
+}
+
+const PREVIEW_DELAY = 200;
+
+const inputClass = "w-full p-1 rounded border dark:bg-gray-700 dark:border-gray-600";
+const toggleClass = (active: boolean) =>
+  `flex-1 p-2 border rounded dark:border-gray-600 text-sm ${active ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`;
+
+// Text and logo watermarks: edit a template, save it for reuse, stamp it on this image or
+// on every export automatically
+export default function WatermarkPanel({ previewUri, onApply }: WatermarkPanelProps) {
+  const [templates, setTemplates] = useState<WatermarkTemplate[]>([]);
+  const [draft, setDraft] = useState<WatermarkTemplate>(() => createWatermark());
+  const [autoId, setAutoId] = useState(getAutoWatermarkId);
+  const [preview, setPreview] = useState<string | null>(null);
+  const logoRef = useRef<HTMLInputElement | null>(null);
+  const update = (patch: Partial<WatermarkTemplate>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const saved = templates.find((t) => t.id === draft.id);
+
+  const refresh = () =>
+    listWatermarks()
+      .then(setTemplates)
+      .catch((err) => console.error("Loading watermarks failed:", err));
+
+  useEffect(() => {
+    listWatermarks()
+      .then((list) => {
+        setTemplates(list);
+        // start on the automatic template, or the first saved one
+        const start = list.find((t) => t.id === getAutoWatermarkId()) ?? list[0];
+        if (start) setDraft(start);
+      })
+      .catch((err) => console.error("Loading watermarks failed:", err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const img = await loadImage(previewUri);
+        const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+        ctx.drawImage(img, 0, 0);
+        const logo = draft.kind === "logo" && draft.logo ? await decodeBlob(draft.logo) : null;
+        const stamped = renderWatermark(canvas, draft, logo);
+        if (!cancelled) setPreview(canvasToDataUrl(stamped, "image/jpeg", 0.8));
+      } catch (err) {
+        console.error("Watermark preview failed:", err);
+      }
+    }, PREVIEW_DELAY);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [previewUri, draft]);
+
+  const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    update({ kind: "logo", logo: file, name: saved ? draft.name : file.name.replace(/\.[^.]+$/, "") });
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveWatermark(draft);
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error("Saving watermark failed:", err);
+      alert("Couldn't save the watermark template.");
+      return false;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!saved || !confirm(`Delete the watermark "${saved.name}"?`)) return;
+    try {
+      await deleteWatermark(saved.id);
+      setAutoId(getAutoWatermarkId());
+      setDraft(createWatermark());
+      await refresh();
+    } catch (err) {
+      console.error("Deleting watermark failed:", err);
+    }
+  };
+
+  const handleAuto = async (on: boolean) => {
+    // only saved templates can be stamped later, so turning it on saves the current one
+    if (on && !(await handleSave())) return;
+    setAutoWatermarkId(on ? draft.id : null);
+    setAutoId(on ? draft.id : null);
+  };
+
+  const canApply = draft.kind === "logo" ? !!draft.logo : !!draft.text.trim();
+
+  return (
+    <div className="flex flex-col gap-3">
+      <h3 className="text-lg font-bold">Watermark</h3>
+
+      {preview && <img src={preview} alt="Watermark preview" className="max-h-48 mx-auto" />}
+
+      <div className="flex flex-wrap gap-2">
+        {templates.map((t) => (
+          <button key={t.id} onClick={() => setDraft(t)} className={`px-2 py-1 border rounded dark:border-gray-600 text-sm ${t.id === draft.id ? "bg-blue-500 text-white" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}>
+            {t.name}
+            {t.id === autoId && " (auto)"}
+          </button>
+        ))}
+        <button onClick={() => setDraft(createWatermark())} className="px-2 py-1 border rounded dark:border-gray-600 text-sm hover:bg-gray-100 dark:hover:bg-gray-700">
+          + New
+        </button>
+      </div>
+
+      <label className="text-sm">
+        Name
+        <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+      </label>
+
+      <div className="flex gap-2">
+        <button onClick={() => update({ kind: "text" })} className={toggleClass(draft.kind === "text")}>Text</button>
+        <button onClick={() => (draft.logo ? update({ kind: "logo" }) : logoRef.current?.click())} className={toggleClass(draft.kind === "logo")}>Logo</button>
+      </div>
+      <input type="file" ref={logoRef} accept="image/*" onChange={handleLogo} className="hidden" />
+
+      {draft.kind === "text" ? (
+        <div className="flex items-end gap-2">
+          <label className="flex-1 text-sm">
+            Text
+            <input type="text" value={draft.text} onChange={(e) => update({ text: e.target.value })} className={inputClass} />
+          </label>
+          <input type="color" value={draft.color} onChange={(e) => update({ color: e.target.value })} className="h-8 w-10" title="Colour" />
+          <label className="flex items-center gap-1 text-sm pb-1">
+            <input type="checkbox" checked={draft.bold} onChange={(e) => update({ bold: e.target.checked })} />
+            Bold
+          </label>
+        </div>
+      ) : (
+        <button onClick={() => logoRef.current?.click()} className="text-sm text-blue-400 text-left">
+          Choose another logo
+        </button>
+      )}
+
+      <div>
+        <label className="text-sm">Size: {Math.round(draft.size * 100)}%</label>
+        <input type="range" min={1} max={40} value={Math.round(draft.size * 100)} onChange={(e) => update({ size: Number(e.target.value) / 100 })} className="w-full" />
+      </div>
+      <div>
+        <label className="text-sm">Opacity: {Math.round(draft.opacity * 100)}%</label>
+        <input type="range" min={5} max={100} value={Math.round(draft.opacity * 100)} onChange={(e) => update({ opacity: Number(e.target.value) / 100 })} className="w-full" />
+      </div>
+      <div>
+        <label className="text-sm">Rotation: {draft.rotation}°</label>
+        <input type="range" min={-90} max={90} value={draft.rotation} onChange={(e) => update({ rotation: Number(e.target.value) })} className="w-full" />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={draft.tiled} onChange={(e) => update({ tiled: e.target.checked })} />
+        Repeat over the whole image
+      </label>
+
+      {draft.tiled ? (
+        <div>
+          <label className="text-sm">Spacing: {draft.spacing.toFixed(1)}×</label>
+          <input type="range" min={5} max={50} value={Math.round(draft.spacing * 10)} onChange={(e) => update({ spacing: Number(e.target.value) / 10 })} className="w-full" />
+        </div>
+      ) : (
+        <div className="flex items-start gap-3">
+          <div className="grid grid-cols-3 gap-1">
+            {WATERMARK_ANCHORS.map((anchor) => (
+              <button
+                key={anchor}
+                onClick={() => update({ anchor })}
+                title={anchor}
+                className={`w-6 h-6 border rounded dark:border-gray-600 ${draft.anchor === anchor ? "bg-blue-500" : "hover:bg-gray-100 dark:hover:bg-gray-700"}`}
+              />
+            ))}
+          </div>
+          <div className="flex-1">
+            <label className="text-sm">Margin: {Math.round(draft.margin * 100)}%</label>
+            <input type="range" min={0} max={15} value={Math.round(draft.margin * 100)} onChange={(e) => update({ margin: Number(e.target.value) / 100 })} className="w-full" />
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={handleSave} disabled={!canApply || !draft.name.trim()} className="flex-1 p-2 border rounded dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">
+          {saved ? "Update template" : "Save template"}
+        </button>
+        {saved && (
+          <button onClick={handleDelete} className="p-2 border rounded dark:border-gray-600 text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700">
+            Delete
+          </button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={autoId === draft.id} disabled={!canApply || !draft.name.trim()} onChange={(e) => handleAuto(e.target.checked)} />
+        Stamp automatically on every export, save and batch
+      </label>
+
+      <button onClick={() => onApply(draft)} disabled={!canApply} className="w-full bg-blue-500 text-white p-2 rounded disabled:opacity-50">
+        Apply to this image
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { canvasToBlob, createCanvas } from "../utils/image";
+import { decodeBlob, describeOperation, EditOperation, measureOperations } from "../utils/pipeline";
+import { ExportSettings } from "../utils/export";
+import { JobOptions, runJob } from "../utils/jobs";
+import { isCancelled } from "../utils/renderJob";
+
+// longest edge of the on-screen preview; exports always render at full resolution
+const PREVIEW_MAX = 1600;
+const THUMB_MAX = 96;
+
+export interface HistoryState {
+  id: number;
+  label: string;
+  operations: EditOperation[];
+}
+
+// Starting point other than a fresh image: a saved recipe or a recovered session
+export interface PipelineSeed {
+  original: Blob;
+  history: Omit<HistoryState, "id">[];
+  cursor: number;
+}
+
+/**
+ * Editor state as an untouched original plus an ordered list of operations.
+ * The list is rendered to a downscaled preview whenever it changes; renders run as jobs
+ * in the render worker, and a preview that is out of date before it finishes is cancelled.
+ *
+ * Every commit is a history state (just the operation list, so entries are cheap);
+ * `historyDepth` caps how many are kept, 0 means unlimited.
+ * A `seed` restores its original and history instead of loading `imageUri`.
+ * A `blob:` imageUri belongs to the editor: it is revoked once the first preview replaces
+ * it, or when the editor closes before that.
+ */
+export function useEditPipeline(imageUri: string, historyDepth = 0, seed?: PipelineSeed) {
+  const [original, setOriginal] = useState<Blob | null>(null);
+  const [originalSize, setOriginalSize] = useState({ width: 0, height: 0 });
+  const nextId = useRef(1);
+  const [history, setHistory] = useState<{ entries: HistoryState[]; cursor: number }>(() =>
+    seed && seed.history.length > 0
+      ? {
+          entries: seed.history.map((entry) => ({ ...entry, id: nextId.current++ })),
+          cursor: Math.min(Math.max(0, seed.cursor), seed.history.length - 1),
+        }
+      : { entries: [{ id: 0, label: "Original", operations: [] }], cursor: 0 }
+  );
+  // small object-URL thumbnails keyed by history state id
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const thumbnailsRef = useRef(thumbnails);
+  thumbnailsRef.current = thumbnails;
+  // uncommitted list shown in the preview while a tool is being adjusted
+  const [draft, setDraft] = useState<EditOperation[] | null>(null);
+  const [previewUri, setPreviewUri] = useState(imageUri);
+  const previewUriRef = useRef(previewUri);
+  previewUriRef.current = previewUri;
+
+  const current = history.entries[history.cursor];
+  const operations = current.operations;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const blob = seed?.original ?? (await (await fetch(imageUri)).blob());
+      const bitmap = await decodeBlob(blob);
+      if (cancelled) return;
+      setOriginal(blob);
+      setOriginalSize({ width: bitmap.width, height: bitmap.height });
+    })().catch((err) => console.error("Failed to load image:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUri, seed]);
+
+  const size = measureOperations(originalSize.width, originalSize.height, operations);
+
+  useEffect(() => {
+    if (!original) return;
+    const controller = new AbortController();
+    const ops = draft ?? operations;
+    const out = measureOperations(originalSize.width, originalSize.height, ops);
+    const scale = Math.min(1, PREVIEW_MAX / Math.max(originalSize.width, originalSize.height, out.width, out.height));
+    (async () => {
+      const blob = await runJob({ type: "preview", original, ops, scale }, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const url = URL.createObjectURL(blob);
+      setPreviewUri((prev) => {
+        if (prev.startsWith("blob:")) URL.revokeObjectURL(prev);
+        return url;
+      });
+
+      // thumbnail for the committed state, taken from the preview render
+      if (!draft && !thumbnailsRef.current[current.id]) {
+        const preview = await createImageBitmap(blob);
+        const t = Math.min(1, THUMB_MAX / Math.max(preview.width, preview.height));
+        const thumb = createCanvas(Math.max(1, Math.round(preview.width * t)), Math.max(1, Math.round(preview.height * t)));
+        thumb.ctx.drawImage(preview, 0, 0, thumb.canvas.width, thumb.canvas.height);
+        preview.close();
+        const thumbBlob = await canvasToBlob(thumb.canvas, "image/jpeg", 0.8);
+        setThumbnails((m) => ({ ...m, [current.id]: URL.createObjectURL(thumbBlob) }));
+      }
+    })().catch((err) => {
+      if (!isCancelled(err)) console.error("Preview render failed:", err);
+    });
+    return () => controller.abort();
+  }, [original, originalSize, operations, draft, current.id]);
+
+  // thumbnails for states that were never previewed, such as a restored history; one small
+  // render at a time, so the preview never waits behind more than one
+  useEffect(() => {
+    if (!original) return;
+    const controller = new AbortController();
+    (async () => {
+      for (const entry of history.entries) {
+        if (entry.id === current.id || thumbnailsRef.current[entry.id]) continue;
+        const out = measureOperations(originalSize.width, originalSize.height, entry.operations);
+        const scale = Math.min(1, THUMB_MAX / Math.max(out.width, out.height));
+        const blob = await runJob({ type: "preview", original, ops: entry.operations, scale }, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        const url = URL.createObjectURL(blob);
+        setThumbnails((m) => {
+          if (!m[entry.id]) return { ...m, [entry.id]: url };
+          URL.revokeObjectURL(url);
+          return m;
+        });
+      }
+    })().catch((err) => {
+      if (!isCancelled(err)) console.error("Thumbnail render failed:", err);
+    });
+    return () => controller.abort();
+  }, [original, originalSize, history.entries, current.id]);
+
+  useEffect(
+    () => () => {
+      if (previewUriRef.current.startsWith("blob:")) URL.revokeObjectURL(previewUriRef.current);
+      Object.values(thumbnailsRef.current).forEach((url) => URL.revokeObjectURL(url));
+    },
+    []
+  );
+
+  // drop thumbnails whose history state no longer exists
+  const releaseThumbnails = (kept: HistoryState[]) => {
+    const keep = new Set(kept.map((e) => e.id));
+    setThumbnails((m) => {
+      const next: Record<number, string> = {};
+      for (const [id, url] of Object.entries(m)) {
+        if (keep.has(Number(id))) next[Number(id)] = url;
+        else URL.revokeObjectURL(url);
+      }
+      return next;
+    });
+  };
+
+  const commit = useCallback(
+    (next: EditOperation[], label: string) => {
+      let entries = [...history.entries.slice(0, history.cursor + 1), { id: nextId.current++, label, operations: next }];
+      if (historyDepth > 0 && entries.length > historyDepth) entries = entries.slice(entries.length - historyDepth);
+      setHistory({ entries, cursor: entries.length - 1 });
+      releaseThumbnails(entries);
+      setDraft(null);
+    },
+    [history, historyDepth]
+  );
+
+  const apply = useCallback(
+    (ops: EditOperation | EditOperation[], label?: string) => {
+      const added = Array.isArray(ops) ? ops : [ops];
+      commit([...operations, ...added], label ?? added.map(describeOperation).join(" + "));
+    },
+    [commit, operations]
+  );
+  const update = useCallback(
+    (index: number, op: EditOperation) => commit(operations.map((o, i) => (i === index ? op : o)), `Edit ${describeOperation(op)}`),
+    [commit, operations]
+  );
+  const remove = useCallback(
+    (index: number) => commit(operations.filter((_, i) => i !== index), `Remove ${describeOperation(operations[index])}`),
+    [commit, operations]
+  );
+
+  const jumpTo = useCallback((cursor: number) => {
+    setHistory((h) => (cursor >= 0 && cursor < h.entries.length ? { ...h, cursor } : h));
+    setDraft(null);
+  }, []);
+  const undo = useCallback(() => jumpTo(history.cursor - 1), [jumpTo, history.cursor]);
+  const redo = useCallback(() => jumpTo(history.cursor + 1), [jumpTo, history.cursor]);
+
+  const loaded = useCallback(() => {
+    if (!original) throw new Error("Image not loaded");
+    return original;
+  }, [original]);
+
+  // full-resolution render of the given operations (defaults to the current list)
+  const renderFull = useCallback(
+    async (ops: EditOperation[] = operations, job?: JobOptions) => {
+      const bitmap = await runJob({ type: "render", original: loaded(), ops }, job);
+      const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      return canvas;
+    },
+    [loaded, operations]
+  );
+
+  const exportImage = useCallback(
+    async (ops: EditOperation[] = operations, job?: JobOptions) => runJob({ type: "encode", original: loaded(), ops }, job),
+    [loaded, operations]
+  );
+
+  // encoded with the export dialog's format, size and quality
+  const exportFile = useCallback(
+    async (settings: ExportSettings, ops: EditOperation[] = operations, job?: JobOptions) => runJob({ type: "export", original: loaded(), ops, settings }, job),
+    [loaded, operations]
+  );
+
+  return {
+    previewUri,
+    size,
+    originalSize,
+    operations,
+    history: history.entries,
+    historyCursor: history.cursor,
+    thumbnails,
+    canUndo: history.cursor > 0,
+    canRedo: history.cursor < history.entries.length - 1,
+    original,
+    isReady: !!original,
+    apply,
+    update,
+    remove,
+    undo,
+    redo,
+    jumpTo,
+    setDraft,
+    renderFull,
+    exportImage,
+    exportFile,
+  };
+}
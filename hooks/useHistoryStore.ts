@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { estimateStorage, StorageEstimate } from "../utils/db";
+import { clearHistory, deleteHistory, HistoryRecord, listHistory } from "../utils/historyStore";
+
+export interface HistoryItem {
+  record: HistoryRecord;
+  thumbnailUrl: string;
+}
+
+// Saved history from IndexedDB, with object URLs for the thumbnails only
+export function useHistoryStore() {
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const urlsRef = useRef<string[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const records = await listHistory();
+      const next = records.map((record) => ({ record, thumbnailUrl: URL.createObjectURL(record.thumbnail) }));
+      urlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+      urlsRef.current = next.map((item) => item.thumbnailUrl);
+      setItems(next);
+      setStorage(await estimateStorage());
+    } catch (err) {
+      console.error("Failed to load history:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => () => urlsRef.current.forEach((url) => URL.revokeObjectURL(url)), []);
+
+  const remove = useCallback(
+    async (id: number) => {
+      try {
+        await deleteHistory(id);
+      } catch (err) {
+        console.error("Failed to delete history entry:", err);
+        alert("Couldn't delete this edit. Please try again.");
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const clear = useCallback(async () => {
+    try {
+      await clearHistory();
+    } catch (err) {
+      console.error("Failed to clear history:", err);
+      alert("Couldn't clear the history. Please try again.");
+    }
+    await refresh();
+  }, [refresh]);
+
+  return { items, loading, storage, refresh, remove, clear };
+}
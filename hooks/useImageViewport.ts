@@ -0,0 +1,38 @@
+import { RefObject, useCallback, useLayoutEffect, useState } from "react";
+
+/**
+ * Where an `object-contain` image's content sits inside its container, in screen pixels,
+ * with `scale` screen pixels per image pixel. The content box is computed rather than read
+ * from the element because of the letterboxing; bounding rects also include any zoom.
+ */
+export function useImageViewport(
+  containerRef: RefObject<HTMLElement | null>,
+  imgRef: RefObject<HTMLImageElement | null>,
+  imageWidth: number,
+  imageHeight: number
+) {
+  const [view, setView] = useState({ left: 0, top: 0, scale: 1 });
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    const img = imgRef.current;
+    if (!container || !img) return;
+    const c = container.getBoundingClientRect();
+    const r = img.getBoundingClientRect();
+    const scale = Math.min(r.width / imageWidth, r.height / imageHeight);
+    setView({
+      left: r.left - c.left + (r.width - imageWidth * scale) / 2,
+      top: r.top - c.top + (r.height - imageHeight * scale) / 2,
+      scale: scale || 1,
+    });
+  }, [containerRef, imgRef, imageWidth, imageHeight]);
+
+  useLayoutEffect(() => {
+    measure();
+    const observer = new ResizeObserver(measure);
+    if (containerRef.current) observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, [measure]);
+
+  return { view, measure };
+}
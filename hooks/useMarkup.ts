@@ -0,0 +1,69 @@
+import { useCallback, useState } from "react";
+import { MARKUP_COLORS, MarkupKind, MarkupShape } from "../utils/markup";
+
+export type MarkupMode = MarkupKind | "select";
+
+/**
+ * Shapes being drawn over the image before they are flattened into an edit step, with
+ * their own undo stack. `commit` starts an undoable change; `replace` folds into the last
+ * one, so a whole stroke or drag undoes in one go.
+ */
+export function useMarkup() {
+  const [state, setState] = useState<{ shapes: MarkupShape[]; past: MarkupShape[][] }>({ shapes: [], past: [] });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<MarkupMode>("pen");
+  const [color, setColor] = useState(MARKUP_COLORS[0]);
+  // fraction of the image's shorter side
+  const [width, setWidth] = useState(0.006);
+
+  const commit = useCallback((fn: (shapes: MarkupShape[]) => MarkupShape[]) => {
+    setState((s) => ({ shapes: fn(s.shapes), past: [...s.past, s.shapes] }));
+  }, []);
+
+  const replace = useCallback((fn: (shapes: MarkupShape[]) => MarkupShape[]) => {
+    setState((s) => ({ ...s, shapes: fn(s.shapes) }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setState((s) => (s.past.length ? { shapes: s.past[s.past.length - 1], past: s.past.slice(0, -1) } : s));
+  }, []);
+
+  const selected = state.shapes.find((s) => s.id === selectedId) ?? null;
+
+  // the style applies to new shapes and restyles the selected one
+  const setStyle = (style: { color?: string; width?: number }) => {
+    if (style.color !== undefined) setColor(style.color);
+    if (style.width !== undefined) setWidth(style.width);
+    if (selectedId) commit((shapes) => shapes.map((s) => (s.id === selectedId ? { ...s, ...style } : s)));
+  };
+
+  const removeSelected = () => {
+    if (!selectedId) return;
+    commit((shapes) => shapes.filter((s) => s.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const reset = () => {
+    setState({ shapes: [], past: [] });
+    setSelectedId(null);
+  };
+
+  return {
+    shapes: state.shapes,
+    canUndo: state.past.length > 0,
+    selected,
+    select: setSelectedId,
+    mode,
+    setMode,
+    color,
+    width,
+    setStyle,
+    commit,
+    replace,
+    undo,
+    removeSelected,
+    reset,
+  };
+}
+
+export type Markup = ReturnType<typeof useMarkup>;
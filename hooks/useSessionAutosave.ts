@@ -0,0 +1,51 @@
+import { useEffect, useRef } from "react";
+import { clearSession, EditorSession, saveSession } from "../utils/session";
+
+const AUTOSAVE_DELAY = 800;
+
+/**
+ * Persist the editor session shortly after it changes, and immediately when the page is
+ * hidden, since a backgrounded WebView can be killed without any further events.
+ * Pass null to pause saving (e.g. before the original has loaded).
+ * Returns `end`, which stops autosaving for good and deletes the saved session.
+ */
+export function useSessionAutosave(session: EditorSession | null) {
+  const latest = useRef(session);
+  latest.current = session;
+  const dirty = useRef(false);
+  const ended = useRef(false);
+
+  const flush = () => {
+    if (ended.current || !dirty.current || !latest.current) return;
+    dirty.current = false;
+    saveSession(latest.current).catch((err) => console.error("Autosave failed:", err));
+  };
+
+  useEffect(() => {
+    if (!session) return;
+    dirty.current = true;
+    const timer = window.setTimeout(flush, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [session]);
+
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    document.addEventListener("visibilitychange", onHide);
+    window.addEventListener("pagehide", flush);
+    return () => {
+      document.removeEventListener("visibilitychange", onHide);
+      window.removeEventListener("pagehide", flush);
+    };
+  }, []);
+
+  // a pending or later autosave would otherwise bring the session back
+  const end = () => {
+    ended.current = true;
+    dirty.current = false;
+    clearSession().catch((err) => console.error("Failed to clear session:", err));
+  };
+
+  return end;
+}
@@ -0,0 +1,20 @@
+import { EditOperation, EncodedImage } from "./pipeline";
+import { runJob } from "./jobs";
+import { BatchRecipe } from "./batchRecipe";
+
+// Sliced copies keep decoded bitmaps out of the shared cache: each file is decoded
+// once and freed with its copy instead of staying alive for the whole batch.
+const detach = (file: Blob) => file.slice(0, file.size, file.type);
+
+export interface BatchOutput {
+  original: Blob;
+  operations: EditOperation[];
+  encoded: EncodedImage;
+}
+
+export const processBatchFile = async (file: Blob, recipe: BatchRecipe): Promise<BatchOutput> => {
+  const original = detach(file);
+  // the job decodes the file once, off the page, and reports the steps it used
+  const { operations, encoded } = await runJob({ type: "batch", original, recipe });
+  return { original, operations, encoded };
+};
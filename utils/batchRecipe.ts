@@ -0,0 +1,39 @@
+import { centerCropRect, EditOperation } from "./pipeline";
+import { WatermarkTemplate } from "./watermark";
+
+// One set of steps applied to every image in a batch. Crops are centred and
+// computed per image, so files of different sizes all end up at the same ratio.
+export interface BatchRecipe {
+  ratio: { name: string; w: number; h: number } | null;
+  resize: { width: number; height: number } | null;
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  maxKB: number | null;
+  minKB: number | null;
+  // stamped after the enhance step, before compressing
+  watermark: WatermarkTemplate | null;
+}
+
+export const DEFAULT_BATCH_RECIPE: BatchRecipe = {
+  ratio: null,
+  resize: null,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  maxKB: null,
+  minKB: null,
+  watermark: null,
+};
+
+export const recipeOperations = (recipe: BatchRecipe, width: number, height: number): EditOperation[] => {
+  const ops: EditOperation[] = [];
+  if (recipe.ratio) ops.push({ type: "crop", rect: centerCropRect(width, height, recipe.ratio.w / recipe.ratio.h) });
+  if (recipe.resize) ops.push({ type: "resize", width: recipe.resize.width, height: recipe.resize.height, quality: "high" });
+  if (recipe.brightness !== 100 || recipe.contrast !== 100 || recipe.saturation !== 100) {
+    ops.push({ type: "adjust", brightness: recipe.brightness, contrast: recipe.contrast, saturation: recipe.saturation });
+  }
+  if (recipe.watermark) ops.push({ type: "watermark", template: recipe.watermark });
+  if (recipe.maxKB) ops.push({ type: "compress", maxKB: recipe.maxKB, minKB: recipe.minKB ?? undefined });
+  return ops;
+};
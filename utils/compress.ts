@@ -0,0 +1,76 @@
+import { blobToDataUrl, canvasToBlob, createCanvas, DrawingCanvas } from "./image";
+
+export interface TargetSizeOptions {
+  maxKB: number;
+  minKB?: number;
+  mimeType?: string;
+}
+
+export interface CompressResult {
+  dataUrl: string;
+  bytes: number;
+  width: number;
+  height: number;
+  quality: number;
+  // true when even the best quality at full size stays under minKB
+  belowMin: boolean;
+}
+
+const MIN_QUALITY = 0.05;
+const SEARCH_STEPS = 7;
+const MAX_DOWNSCALES = 8;
+
+/**
+ * Find the highest JPEG quality whose encoded size fits under `maxKB`,
+ * shrinking the image when even the lowest quality is too big.
+ */
+export const compressToTargetSize = async (source: DrawingCanvas, { maxKB, minKB = 0, mimeType = "image/jpeg" }: TargetSizeOptions): Promise<CompressResult> => {
+  const maxBytes = maxKB * 1024;
+  let scale = 1;
+
+  for (let round = 0; round <= MAX_DOWNSCALES; round++) {
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = "#fff"; // JPEG has no alpha
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(source, 0, 0, width, height);
+
+    const smallest = await canvasToBlob(canvas, mimeType, MIN_QUALITY);
+    if (smallest.size > maxBytes) {
+      // area scales roughly linearly with bytes, so shrink by the square root
+      scale *= Math.min(0.9, Math.sqrt(maxBytes / smallest.size) * 0.95);
+      continue;
+    }
+
+    // binary search the highest quality that still fits
+    let lo = MIN_QUALITY;
+    let hi = 1;
+    let best = { blob: smallest, quality: MIN_QUALITY };
+    for (let i = 0; i < SEARCH_STEPS; i++) {
+      const q = (lo + hi) / 2;
+      const blob = await canvasToBlob(canvas, mimeType, q);
+      if (blob.size <= maxBytes) {
+        best = { blob, quality: q };
+        lo = q;
+      } else {
+        hi = q;
+      }
+    }
+    const top = await canvasToBlob(canvas, mimeType, 1);
+    if (top.size <= maxBytes) best = { blob: top, quality: 1 };
+
+    return {
+      dataUrl: await blobToDataUrl(best.blob),
+      bytes: best.blob.size,
+      width,
+      height,
+      quality: Math.round(best.quality * 100),
+      belowMin: best.blob.size < minKB * 1024,
+    };
+  }
+  throw new Error(`Could not get under ${maxKB} KB`);
+};
+
+export const formatKB = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
@@ -0,0 +1,85 @@
+import { createCanvas, DrawingCanvas } from "./image";
+
+// Subject cut-outs: the mask from background removal, touched up by hand, with whatever
+// should show behind the subject. Sizes are fractions of the image's shorter side so the
+// same cut-out renders at preview size and at full resolution.
+
+export type CutoutBackground =
+  | { kind: "none" }
+  | { kind: "color"; color: string }
+  // a blurred copy of the photo itself
+  | { kind: "blur"; radius: number }
+  // another photo, cropped from its centre to cover the image
+  | { kind: "image"; image: Blob };
+
+export interface Cutout {
+  // white where the subject is; the alpha is what counts. Made at the resolution of the
+  // image entering the step and stretched to whatever size that image is rendered at.
+  mask: Blob;
+  background: CutoutBackground;
+  // width of the soft edge
+  feather: number;
+}
+
+// plain backgrounds for ID and passport photos
+export const BACKGROUND_COLORS = [
+  { name: "White", color: "#ffffff" },
+  { name: "Off-white", color: "#f2f2f2" },
+  { name: "Light blue", color: "#c9dff2" },
+  { name: "Blue", color: "#1e64c8" },
+];
+
+export const DEFAULT_BLUR = 0.03;
+
+// a mask from a background-removed image: opaque where the subject is
+export const maskFromCutout = (cut: CanvasImageSource & { width: number; height: number }) => {
+  const { canvas, ctx } = createCanvas(cut.width, cut.height);
+  ctx.drawImage(cut, 0, 0);
+  ctx.globalCompositeOperation = "source-in";
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Cut the subject out of `input` with `mask` and put it over the background. Image
+ * backgrounds need their decoded `backgroundImage`; without one nothing is drawn behind.
+ */
+export const renderCutout = (
+  input: DrawingCanvas,
+  cutout: Omit<Cutout, "mask">,
+  mask: CanvasImageSource,
+  backgroundImage: (CanvasImageSource & { width: number; height: number }) | null = null
+) => {
+  const { width: w, height: h } = input;
+  const short = Math.min(w, h);
+
+  const subject = createCanvas(w, h);
+  subject.ctx.imageSmoothingQuality = "high";
+  if (cutout.feather > 0) subject.ctx.filter = `blur(${(cutout.feather * short) / 2}px)`;
+  subject.ctx.drawImage(mask, 0, 0, w, h);
+  subject.ctx.filter = "none";
+  subject.ctx.globalCompositeOperation = "source-in";
+  subject.ctx.drawImage(input, 0, 0);
+
+  const { canvas, ctx } = createCanvas(w, h);
+  const { background } = cutout;
+  if (background.kind === "color") {
+    ctx.fillStyle = background.color;
+    ctx.fillRect(0, 0, w, h);
+  } else if (background.kind === "blur") {
+    // drawn oversize so the blur doesn't fade to transparent at the edges
+    const r = background.radius * short;
+    ctx.filter = `blur(${r}px)`;
+    ctx.drawImage(input, -2 * r, -2 * r, w + 4 * r, h + 4 * r);
+    ctx.filter = "none";
+  } else if (background.kind === "image" && backgroundImage) {
+    const t = Math.max(w / backgroundImage.width, h / backgroundImage.height);
+    const sw = w / t;
+    const sh = h / t;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(backgroundImage, (backgroundImage.width - sw) / 2, (backgroundImage.height - sh) / 2, sw, sh, 0, 0, w, h);
+  }
+  ctx.drawImage(subject.canvas, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,76 @@
+// Thin promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = "easypix";
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = "history";
+export const SESSION_STORE = "session";
+export const WATERMARK_STORE = "watermarks";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        // one block per version so existing installs upgrade step by step
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: "id", autoIncrement: true });
+          store.createIndex("timestamp", "timestamp");
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE);
+        }
+        if (!db.objectStoreNames.contains(WATERMARK_STORE)) {
+          db.createObjectStore(WATERMARK_STORE, { keyPath: "id" });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// run `fn` inside a transaction and resolve once it commits;
+// `fn` must only await requests on `store` or the transaction auto-commits early
+export const withStore = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T> | T) => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  done.catch(() => undefined); // surfaced below; avoids an unhandled rejection when fn throws first
+  try {
+    const result = await fn(tx.objectStore(storeName));
+    await done;
+    return result;
+  } catch (err) {
+    // an aborted transaction (e.g. QuotaExceededError) explains failed requests better than their AbortError
+    throw tx.error ?? err;
+  }
+};
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export const estimateStorage = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
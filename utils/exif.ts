@@ -0,0 +1,342 @@
+import { createCanvas } from "./image";
+
+// EXIF metadata of JPEG photos: reading it for display, neutralising the orientation tag
+// so every browser decodes the same pixels, and writing a small subset back on export.
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+export interface ExifData {
+  // 1 = upright; 2-8 are the flips and quarter turns needed to display the stored pixels
+  orientation: number;
+  make?: string;
+  model?: string;
+  lens?: string;
+  software?: string;
+  // as stored, "YYYY:MM:DD HH:MM:SS"
+  dateTaken?: string;
+  artist?: string;
+  copyright?: string;
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;
+  width?: number;
+  height?: number;
+  gps?: GpsPosition;
+}
+
+// groups of fields that can be carried over into an export
+export type MetadataField = "date" | "copyright" | "camera" | "gps";
+
+export const METADATA_FIELDS: { id: MetadataField; name: string }[] = [
+  { id: "date", name: "Date taken" },
+  { id: "copyright", name: "Copyright & author" },
+  { id: "camera", name: "Camera model" },
+  { id: "gps", name: "GPS location" },
+];
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  pixelX: 0xa002,
+  pixelY: 0xa003,
+  lens: 0xa434,
+  gpsLatitudeRef: 1,
+  gpsLatitude: 2,
+  gpsLongitudeRef: 3,
+  gpsLongitude: 4,
+  gpsAltitudeRef: 5,
+  gpsAltitude: 6,
+};
+
+// bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// the metadata segment sits near the start of the file; a JPEG APP1 is at most 64 KB
+const HEAD_BYTES = 128 * 1024;
+
+// offset of the TIFF header inside a JPEG's Exif APP1 segment, or -1
+const findTiff = (bytes: Uint8Array) => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return -1;
+  let pos = 2;
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1];
+    // start of scan: no metadata segments follow
+    if (marker === 0xda) break;
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const isExif = marker === 0xe1 && String.fromCharCode(...bytes.subarray(pos + 4, pos + 8)) === "Exif" && bytes[pos + 8] === 0 && bytes[pos + 9] === 0;
+    if (isExif) return pos + 10;
+    pos += 2 + length;
+  }
+  return -1;
+};
+
+interface Entry {
+  tag: number;
+  type: number;
+  count: number;
+  // absolute offset of the value (inline or pointed to)
+  offset: number;
+}
+
+const readIfd = (view: DataView, tiff: number, ifd: number, little: boolean) => {
+  const entries: Entry[] = [];
+  const start = tiff + ifd;
+  if (start + 2 > view.byteLength) return entries;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const at = start + 2 + i * 12;
+    if (at + 12 > view.byteLength) break;
+    const type = view.getUint16(at + 2, little);
+    const n = view.getUint32(at + 4, little);
+    const size = (TYPE_SIZES[type] ?? 1) * n;
+    const offset = size <= 4 ? at + 8 : tiff + view.getUint32(at + 8, little);
+    if (offset + size > view.byteLength) continue;
+    entries.push({ tag: view.getUint16(at, little), type, count: n, offset });
+  }
+  return entries;
+};
+
+const readValues = (view: DataView, entry: Entry, little: boolean): number[] => {
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const at = entry.offset + i * (TYPE_SIZES[entry.type] ?? 1);
+    if (entry.type === 3) values.push(view.getUint16(at, little));
+    else if (entry.type === 4) values.push(view.getUint32(at, little));
+    else if (entry.type === 9) values.push(view.getInt32(at, little));
+    else if (entry.type === 5) values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1));
+    else if (entry.type === 10) values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1));
+    else values.push(view.getUint8(at));
+  }
+  return values;
+};
+
+const readString = (view: DataView, entry: Entry) => {
+  let s = "";
+  for (let i = 0; i < entry.count; i++) {
+    const c = view.getUint8(entry.offset + i);
+    if (c === 0) break;
+    s += String.fromCharCode(c);
+  }
+  return s.trim() || undefined;
+};
+
+/** Parse the EXIF block of a JPEG (or the first part of one). Returns null when there is none. */
+export const readExif = (buffer: ArrayBuffer): ExifData | null => {
+  const bytes = new Uint8Array(buffer);
+  const tiff = findTiff(bytes);
+  if (tiff < 0 || tiff + 8 > bytes.length) return null;
+  const view = new DataView(buffer);
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+  const find = (entries: Entry[], tag: number) => entries.find((e) => e.tag === tag);
+  const text = (entries: Entry[], tag: number) => {
+    const e = find(entries, tag);
+    return e && e.type === 2 ? readString(view, e) : undefined;
+  };
+  const number = (entries: Entry[], tag: number) => {
+    const e = find(entries, tag);
+    return e ? readValues(view, e, little)[0] : undefined;
+  };
+
+  const exifPointer = number(ifd0, TAGS.exifIfd);
+  const exifIfd = exifPointer ? readIfd(view, tiff, exifPointer, little) : [];
+  const gpsPointer = number(ifd0, TAGS.gpsIfd);
+  const gpsIfd = gpsPointer ? readIfd(view, tiff, gpsPointer, little) : [];
+
+  let gps: GpsPosition | undefined;
+  const lat = find(gpsIfd, TAGS.gpsLatitude);
+  const lon = find(gpsIfd, TAGS.gpsLongitude);
+  if (lat && lon) {
+    const degrees = (e: Entry) => readValues(view, e, little).reduce((sum, v, i) => sum + v / 60 ** i, 0);
+    const latitude = degrees(lat) * (text(gpsIfd, TAGS.gpsLatitudeRef) === "S" ? -1 : 1);
+    const longitude = degrees(lon) * (text(gpsIfd, TAGS.gpsLongitudeRef) === "W" ? -1 : 1);
+    const altitude = number(gpsIfd, TAGS.gpsAltitude);
+    gps = { latitude, longitude, altitude: altitude === undefined ? undefined : altitude * (number(gpsIfd, TAGS.gpsAltitudeRef) === 1 ? -1 : 1) };
+  }
+
+  const orientation = number(ifd0, TAGS.orientation) ?? 1;
+  return {
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+    make: text(ifd0, TAGS.make),
+    model: text(ifd0, TAGS.model),
+    software: text(ifd0, TAGS.software),
+    artist: text(ifd0, TAGS.artist),
+    copyright: text(ifd0, TAGS.copyright),
+    dateTaken: text(exifIfd, TAGS.dateTimeOriginal) ?? text(ifd0, TAGS.dateTime),
+    lens: text(exifIfd, TAGS.lens),
+    exposureTime: number(exifIfd, TAGS.exposureTime),
+    fNumber: number(exifIfd, TAGS.fNumber),
+    iso: number(exifIfd, TAGS.iso),
+    focalLength: number(exifIfd, TAGS.focalLength),
+    width: number(exifIfd, TAGS.pixelX),
+    height: number(exifIfd, TAGS.pixelY),
+    gps,
+  };
+};
+
+export const readExifFromBlob = async (blob: Blob) => readExif(await blob.slice(0, HEAD_BYTES).arrayBuffer());
+
+/**
+ * Browsers disagree on whether decoding applies the orientation tag. This returns the blob
+ * with the tag reset to 1, so it decodes as the stored pixels everywhere, together with the
+ * orientation that still has to be applied. Other bytes are untouched.
+ */
+export const neutralizeOrientation = async (blob: Blob): Promise<{ blob: Blob; orientation: number }> => {
+  const head = await blob.slice(0, HEAD_BYTES).arrayBuffer();
+  const bytes = new Uint8Array(head);
+  const tiff = findTiff(bytes);
+  if (tiff < 0 || tiff + 8 > bytes.length) return { blob, orientation: 1 };
+  const view = new DataView(head);
+  const little = view.getUint16(tiff) === 0x4949;
+  const entry = readIfd(view, tiff, view.getUint32(tiff + 4, little), little).find((e) => e.tag === TAGS.orientation && e.type === 3);
+  const orientation = entry ? view.getUint16(entry.offset, little) : 1;
+  if (!entry || orientation <= 1 || orientation > 8) return { blob, orientation: 1 };
+  view.setUint16(entry.offset, 1, little);
+  return { blob: new Blob([head, blob.slice(HEAD_BYTES)], { type: blob.type }), orientation };
+};
+
+/** Draw stored pixels the way the orientation tag says they should be displayed. */
+export const orientImage = (source: CanvasImageSource & { width: number; height: number }, orientation: number) => {
+  const { width: w, height: h } = source;
+  const swap = orientation >= 5;
+  const { canvas, ctx } = createCanvas(swap ? h : w, swap ? w : h);
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, w, 0],
+    3: [-1, 0, 0, -1, w, h],
+    4: [1, 0, 0, -1, 0, h],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, h, 0],
+    7: [0, -1, -1, 0, h, w],
+    8: [0, -1, 1, 0, 0, w],
+  };
+  const t = transforms[orientation];
+  if (t) ctx.setTransform(...t);
+  ctx.drawImage(source, 0, 0);
+  return canvas;
+};
+
+// ---------- Writing ----------
+
+type WriteEntry = { tag: number; type: 2 | 3 | 4 | 5 | 1; values: number[] | string };
+
+const ascii = (tag: number, value: string): WriteEntry => ({ tag, type: 2, values: value });
+
+// rationals with a fixed denominator are plenty for degrees, seconds and metres
+const rationalParts = (value: number, denominator = 1000) => [Math.round(Math.abs(value) * denominator), denominator];
+
+const toDms = (decimal: number) => {
+  const abs = Math.abs(decimal);
+  const deg = Math.floor(abs);
+  const min = Math.floor((abs - deg) * 60);
+  return [deg, min, (abs - deg - min / 60) * 3600];
+};
+
+// encode one IFD (big-endian) whose out-of-line data starts at `dataStart`, relative to the TIFF header
+const encodeIfd = (entries: WriteEntry[], ifdStart: number) => {
+  entries.sort((a, b) => a.tag - b.tag);
+  const tableSize = 2 + entries.length * 12 + 4;
+  const table = new DataView(new ArrayBuffer(tableSize));
+  const data: number[] = [];
+  table.setUint16(0, entries.length);
+  entries.forEach((entry, i) => {
+    const at = 2 + i * 12;
+    const bytes: number[] = [];
+    let count: number;
+    if (entry.type === 2) {
+      const s = `${entry.values as string}\0`;
+      for (let c = 0; c < s.length; c++) bytes.push(s.charCodeAt(c) & 0xff);
+      count = s.length;
+    } else {
+      const values = entry.values as number[];
+      for (const v of values) {
+        if (entry.type === 1) bytes.push(v & 0xff);
+        else if (entry.type === 3) bytes.push((v >> 8) & 0xff, v & 0xff);
+        else bytes.push((v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff);
+      }
+      count = entry.type === 5 ? values.length / 2 : values.length;
+    }
+    table.setUint16(at, entry.tag);
+    table.setUint16(at + 2, entry.type);
+    table.setUint32(at + 4, count);
+    if (bytes.length <= 4) {
+      bytes.forEach((b, j) => table.setUint8(at + 8 + j, b));
+    } else {
+      table.setUint32(at + 8, ifdStart + tableSize + data.length);
+      data.push(...bytes);
+      if (data.length % 2) data.push(0); // values start on word boundaries
+    }
+  });
+  return [...new Uint8Array(table.buffer), ...data];
+};
+
+/**
+ * Build an Exif APP1 payload ("Exif\0\0" + TIFF) holding the chosen fields of `exif`.
+ * Orientation is always 1 since exported pixels are already upright. Returns null when
+ * none of the chosen fields are present.
+ */
+export const buildExifSegment = (exif: ExifData, fields: MetadataField[]): Uint8Array | null => {
+  const ifd0: WriteEntry[] = [{ tag: TAGS.orientation, type: 3, values: [1] }];
+  const exifIfd: WriteEntry[] = [];
+  const gpsIfd: WriteEntry[] = [];
+  if (fields.includes("date") && exif.dateTaken) {
+    ifd0.push(ascii(TAGS.dateTime, exif.dateTaken));
+    exifIfd.push(ascii(TAGS.dateTimeOriginal, exif.dateTaken));
+  }
+  if (fields.includes("copyright")) {
+    if (exif.copyright) ifd0.push(ascii(TAGS.copyright, exif.copyright));
+    if (exif.artist) ifd0.push(ascii(TAGS.artist, exif.artist));
+  }
+  if (fields.includes("camera")) {
+    if (exif.make) ifd0.push(ascii(TAGS.make, exif.make));
+    if (exif.model) ifd0.push(ascii(TAGS.model, exif.model));
+  }
+  if (fields.includes("gps") && exif.gps) {
+    const { latitude, longitude, altitude } = exif.gps;
+    gpsIfd.push(
+      { tag: TAGS.gpsLatitudeRef, type: 2, values: latitude < 0 ? "S" : "N" },
+      { tag: TAGS.gpsLatitude, type: 5, values: toDms(latitude).flatMap((v) => rationalParts(v)) },
+      { tag: TAGS.gpsLongitudeRef, type: 2, values: longitude < 0 ? "W" : "E" },
+      { tag: TAGS.gpsLongitude, type: 5, values: toDms(longitude).flatMap((v) => rationalParts(v)) }
+    );
+    if (altitude !== undefined) {
+      gpsIfd.push({ tag: TAGS.gpsAltitudeRef, type: 1, values: [altitude < 0 ? 1 : 0] }, { tag: TAGS.gpsAltitude, type: 5, values: rationalParts(altitude) });
+    }
+  }
+  if (ifd0.length === 1 && !exifIfd.length && !gpsIfd.length) return null;
+
+  // IFD0 first, then the Exif and GPS sub-IFDs it points to; pointers are filled in once sizes are known
+  if (exifIfd.length) ifd0.push({ tag: TAGS.exifIfd, type: 4, values: [0] });
+  if (gpsIfd.length) ifd0.push({ tag: TAGS.gpsIfd, type: 4, values: [0] });
+  const first = 8;
+  let block0 = encodeIfd(ifd0, first);
+  const exifStart = first + block0.length;
+  const exifBlock = exifIfd.length ? encodeIfd(exifIfd, exifStart) : [];
+  const gpsStart = exifStart + exifBlock.length;
+  const gpsBlock = gpsIfd.length ? encodeIfd(gpsIfd, gpsStart) : [];
+  for (const entry of ifd0) {
+    if (entry.tag === TAGS.exifIfd) entry.values = [exifStart];
+    if (entry.tag === TAGS.gpsIfd) entry.values = [gpsStart];
+  }
+  block0 = encodeIfd(ifd0, first);
+
+  const header = [0x4d, 0x4d, 0, 42, 0, 0, 0, 8]; // big-endian TIFF, IFD0 at offset 8
+  const exifHeader = [0x45, 0x78, 0x69, 0x66, 0, 0];
+  return new Uint8Array([...exifHeader, ...header, ...block0, ...exifBlock, ...gpsBlock]);
+};
@@ -0,0 +1,150 @@
+import { blobToDataUrl, canvasToBlob, createCanvas, DrawingCanvas } from "./image";
+import { resampleCanvas } from "./resize";
+import { EditOperation, EncodedImage, encodeOperations, NormalizedRect } from "./pipeline";
+import { createPdf, DEFAULT_PDF_OPTIONS, PDF_MIME_TYPE, PdfPageOptions, renderPage, visiblePart } from "./pdf";
+
+// Output settings chosen in the export dialog, remembered between sessions.
+
+export type ExportFormat = "jpeg" | "png" | "webp" | "pdf";
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 1..100, used by JPEG and WebP
+  quality: number;
+  // longest side in pixels; null keeps the edited size
+  maxDimension: number | null;
+  // JPEG has no transparency; transparent pixels are filled with this colour
+  background: string;
+  // page layout when exporting a PDF
+  pdf: PdfPageOptions;
+  // see formatFilename for the placeholders
+  filename: string;
+}
+
+export const EXPORT_FORMATS: { id: ExportFormat; name: string; mimeType: string; extension: string }[] = [
+  { id: "jpeg", name: "JPEG", mimeType: "image/jpeg", extension: "jpg" },
+  { id: "png", name: "PNG", mimeType: "image/png", extension: "png" },
+  { id: "webp", name: "WebP", mimeType: "image/webp", extension: "webp" },
+  { id: "pdf", name: "PDF", mimeType: PDF_MIME_TYPE, extension: "pdf" },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "jpeg",
+  quality: 92,
+  maxDimension: null,
+  background: "#ffffff",
+  pdf: DEFAULT_PDF_OPTIONS,
+  filename: "EasyPix_{date}_{time}",
+};
+
+const SETTINGS_KEY = "easypix.exportSettings";
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}");
+    return { ...DEFAULT_EXPORT_SETTINGS, ...stored, pdf: { ...DEFAULT_PDF_OPTIONS, ...stored.pdf } };
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+export interface ExportedImage extends EncodedImage {
+  // may differ from the chosen format: browsers without a WebP encoder return PNG
+  mimeType: string;
+  // for PDFs, the JPEG on the page and the part of the image it shows; checks that need
+  // pixels read these instead
+  pageImage?: string;
+  pageArea?: NormalizedRect;
+}
+
+// pixel size after the max-dimension limit; images are never enlarged
+export const exportSize = (width: number, height: number, maxDimension: number | null) => {
+  const t = maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : 1;
+  return { width: Math.max(1, Math.round(width * t)), height: Math.max(1, Math.round(height * t)) };
+};
+
+const pad = (n: number, length = 2) => String(n).padStart(length, "0");
+
+/**
+ * Expand a filename template and add the extension for the MIME type. Placeholders:
+ * {date} 2024-05-01, {time} 102030, {w} and {h} the pixel size. Characters that aren't
+ * allowed in filenames are replaced.
+ */
+export const formatFilename = (template: string, size: { width: number; height: number }, mimeType: string, now = new Date()) => {
+  const name = (template.trim() || DEFAULT_EXPORT_SETTINGS.filename)
+    .replace(/\{date\}/g, `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`)
+    .replace(/\{time\}/g, `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`)
+    .replace(/\{w\}/g, String(size.width))
+    .replace(/\{h\}/g, String(size.height))
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_");
+  const extension = EXPORT_FORMATS.find((f) => f.mimeType === mimeType)?.extension ?? "jpg";
+  return `${name}.${extension}`;
+};
+
+const flatten = (input: DrawingCanvas, background: string) => {
+  const { canvas, ctx } = createCanvas(input.width, input.height);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(input, 0, 0);
+  return canvas;
+};
+
+// a single page holding the image, laid out with the PDF settings
+const encodePdf = async (canvas: DrawingCanvas, ops: EditOperation[], settings: ExportSettings): Promise<ExportedImage> => {
+  const page = renderPage(flatten(canvas, settings.background), settings.pdf);
+  // a Compress size limit applies to the whole file, so leave a kilobyte for the PDF structure
+  const limited = ops.map((op) => (op.type === "compress" && op.maxKB ? { ...op, maxKB: Math.max(1, op.maxKB - 1) } : op));
+  const image = ops.some((op) => op.type === "compress")
+    ? await encodeOperations(page, limited)
+    : {
+        dataUrl: await blobToDataUrl(await canvasToBlob(page, "image/jpeg", settings.quality / 100)),
+        width: page.width,
+        height: page.height,
+        quality: settings.quality,
+        belowMin: false,
+      };
+  // a size limit from Compress may have shrunk the page image
+  const jpeg = await (await fetch(image.dataUrl)).blob();
+  const pdf = createPdf([{ jpeg, width: image.width, height: image.height }], settings.pdf);
+  return {
+    dataUrl: await blobToDataUrl(pdf),
+    bytes: pdf.size,
+    width: canvas.width,
+    height: canvas.height,
+    quality: image.quality,
+    belowMin: image.belowMin,
+    mimeType: PDF_MIME_TYPE,
+    pageImage: image.dataUrl,
+    pageArea: visiblePart(settings.pdf, canvas.width, canvas.height),
+  };
+};
+
+/**
+ * Encode a full-resolution render with the export settings. For JPEG and PDF, a Compress step
+ * in the edit (quality, size limit, DPI, e.g. from a document preset) still decides the encoding.
+ */
+export const encodeExport = async (canvas: DrawingCanvas, ops: EditOperation[], settings: ExportSettings): Promise<ExportedImage> => {
+  const size = exportSize(canvas.width, canvas.height, settings.maxDimension);
+  const fitted = size.width === canvas.width && size.height === canvas.height ? canvas : resampleCanvas(canvas, size.width, size.height, "high");
+
+  if (settings.format === "pdf") return encodePdf(fitted, ops, settings);
+
+  if (settings.format === "jpeg" && ops.some((op) => op.type === "compress")) {
+    return { ...(await encodeOperations(flatten(fitted, settings.background), ops)), mimeType: "image/jpeg" };
+  }
+
+  const format = EXPORT_FORMATS.find((f) => f.id === settings.format)!;
+  const source = settings.format === "jpeg" ? flatten(fitted, settings.background) : fitted;
+  const blob = await canvasToBlob(source, format.mimeType, settings.quality / 100);
+  return {
+    dataUrl: await blobToDataUrl(blob),
+    bytes: blob.size,
+    width: source.width,
+    height: source.height,
+    quality: settings.quality,
+    belowMin: false,
+    mimeType: blob.type || format.mimeType,
+  };
+};
@@ -0,0 +1,172 @@
+import { createCanvas, DrawingCanvas } from "./image";
+
+// Pixel-level filters. They work on ImageData rather than `ctx.filter` so sharpening is
+// possible and results don't depend on browser filter support (Safari has none).
+
+export type FilterId = "grayscale" | "sepia" | "blur" | "sharpen" | "vignette" | "warm" | "cool" | "vintage" | "noir" | "fade";
+
+export const FILTERS: { id: FilterId; name: string }[] = [
+  { id: "grayscale", name: "Grayscale" },
+  { id: "sepia", name: "Sepia" },
+  { id: "blur", name: "Blur" },
+  { id: "sharpen", name: "Sharpen" },
+  { id: "vignette", name: "Vignette" },
+  { id: "warm", name: "Warm" },
+  { id: "cool", name: "Cool" },
+  { id: "vintage", name: "Vintage" },
+  { id: "noir", name: "Noir" },
+  { id: "fade", name: "Fade" },
+];
+
+export const filterName = (id: FilterId) => FILTERS.find((f) => f.id === id)?.name ?? id;
+
+// radii in full-resolution pixels at intensity 100; scaled down with the preview
+const BLUR_RADIUS = 24;
+const SHARPEN_RADIUS = 2;
+
+const clamp255 = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+// Three box passes per axis approximate a gaussian; edges repeat the border pixel.
+// Radii can be fractional (the pixels just outside the box count by the fraction), so a
+// radius scaled down for the preview still blurs by a matching amount instead of
+// rounding to none.
+export const boxBlur = (src: Uint8ClampedArray, w: number, h: number, radius: number) => {
+  if (!(radius > 0)) return new Uint8ClampedArray(src);
+  const r = Math.floor(radius);
+  const frac = radius - r;
+  const size = r * 2 + 1 + frac * 2;
+  let a = new Uint8ClampedArray(src);
+  let b = new Uint8ClampedArray(src.length);
+  const pass = (from: Uint8ClampedArray, to: Uint8ClampedArray, horizontal: boolean) => {
+    const lines = horizontal ? h : w;
+    const len = horizontal ? w : h;
+    const step = horizontal ? 4 : w * 4;
+    const at = (base: number, i: number, c: number) => from[base + Math.min(len - 1, Math.max(0, i)) * step + c];
+    for (let line = 0; line < lines; line++) {
+      const base = horizontal ? line * w * 4 : line * 4;
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let i = -r; i <= r; i++) sum += at(base, i, c);
+        for (let i = 0; i < len; i++) {
+          to[base + i * step + c] = frac > 0 ? (sum + (at(base, i - r - 1, c) + at(base, i + r + 1, c)) * frac) / size : sum / size;
+          sum += at(base, i + r + 1, c) - at(base, i - r, c);
+        }
+      }
+    }
+  };
+  for (let iteration = 0; iteration < 3; iteration++) {
+    pass(a, b, true);
+    pass(b, a, false);
+  }
+  return a;
+};
+
+const mixColor = (d: Uint8ClampedArray, t: number, fn: (r: number, g: number, b: number) => [number, number, number]) => {
+  for (let i = 0; i < d.length; i += 4) {
+    const [r, g, b] = fn(d[i], d[i + 1], d[i + 2]);
+    d[i] = clamp255(d[i] + (r - d[i]) * t);
+    d[i + 1] = clamp255(d[i + 1] + (g - d[i + 1]) * t);
+    d[i + 2] = clamp255(d[i + 2] + (b - d[i + 2]) * t);
+  }
+};
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+const gray = (r: number, g: number, b: number): [number, number, number] => {
+  const l = luma(r, g, b);
+  return [l, l, l];
+};
+const sepia = (r: number, g: number, b: number): [number, number, number] => [
+  0.393 * r + 0.769 * g + 0.189 * b,
+  0.349 * r + 0.686 * g + 0.168 * b,
+  0.272 * r + 0.534 * g + 0.131 * b,
+];
+const contrast = (amount: number) => (r: number, g: number, b: number): [number, number, number] => [
+  (r - 128) * amount + 128,
+  (g - 128) * amount + 128,
+  (b - 128) * amount + 128,
+];
+
+// darken towards the corners; `strength` 0..1
+const vignette = (d: Uint8ClampedArray, w: number, h: number, strength: number) => {
+  const cx = w / 2;
+  const cy = h / 2;
+  const maxDist = Math.hypot(cx, cy);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const dist = Math.hypot(x - cx, y - cy) / maxDist;
+      const edge = Math.min(1, Math.max(0, (dist - 0.45) / 0.55));
+      const f = 1 - strength * 0.75 * edge * edge * (3 - 2 * edge);
+      const i = (y * w + x) * 4;
+      d[i] *= f;
+      d[i + 1] *= f;
+      d[i + 2] *= f;
+    }
+  }
+};
+
+// unsharp mask: push each pixel away from its blurred neighbourhood
+const sharpen = (d: Uint8ClampedArray, w: number, h: number, amount: number, radius: number) => {
+  const blurred = boxBlur(d, w, h, radius);
+  for (let i = 0; i < d.length; i += 4) {
+    for (let c = 0; c < 3; c++) d[i + c] = clamp255(d[i + c] + (d[i + c] - blurred[i + c]) * amount);
+  }
+};
+
+/**
+ * Apply a named filter at `intensity` (0-100). `scale` is the preview scale, so
+ * neighbourhood filters cover the same share of the picture at any resolution.
+ */
+export const applyFilter = (input: DrawingCanvas, id: FilterId, intensity: number, scale = 1) => {
+  const t = Math.max(0, Math.min(100, intensity)) / 100;
+  const { width: w, height: h } = input;
+  const { canvas, ctx } = createCanvas(w, h);
+  ctx.drawImage(input, 0, 0);
+  if (t === 0) return canvas;
+  const image = ctx.getImageData(0, 0, w, h);
+  let d = image.data;
+
+  switch (id) {
+    case "grayscale":
+      mixColor(d, t, gray);
+      break;
+    case "sepia":
+      mixColor(d, t, sepia);
+      break;
+    case "blur":
+      d = boxBlur(d, w, h, BLUR_RADIUS * t * scale);
+      break;
+    case "sharpen":
+      sharpen(d, w, h, 1.5 * t, SHARPEN_RADIUS * scale);
+      break;
+    case "vignette":
+      vignette(d, w, h, t);
+      break;
+    case "warm":
+      mixColor(d, t, (r, g, b) => [r + 24, g + 6, b - 24]);
+      break;
+    case "cool":
+      mixColor(d, t, (r, g, b) => [r - 20, g + 4, b + 24]);
+      break;
+    case "vintage":
+      mixColor(d, t * 0.6, sepia);
+      mixColor(d, t, (r, g, b) => [r * 0.9 + 20, g * 0.9 + 16, b * 0.85 + 24]);
+      vignette(d, w, h, t * 0.5);
+      break;
+    case "noir":
+      mixColor(d, t, gray);
+      mixColor(d, t, contrast(1.35));
+      vignette(d, w, h, t * 0.6);
+      break;
+    case "fade":
+      mixColor(d, t, (r, g, b) => {
+        const l = luma(r, g, b);
+        // lift blacks and pull a little colour out
+        return [40 + (r * 0.8 + l * 0.2) * 0.8, 40 + (g * 0.8 + l * 0.2) * 0.8, 40 + (b * 0.8 + l * 0.2) * 0.8];
+      });
+      break;
+  }
+
+  if (d !== image.data) image.data.set(d);
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,22 @@
+// Plane geometry helpers for the transform tools.
+
+/**
+ * Size of the largest axis-aligned rectangle that fits inside a width × height
+ * rectangle rotated by `degrees`, i.e. the crop that leaves no empty corners.
+ */
+export const largestInscribedRect = (width: number, height: number, degrees: number) => {
+  if (width <= 0 || height <= 0) return { width: 0, height: 0 };
+  const angle = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(angle));
+  const cos = Math.abs(Math.cos(angle));
+  const widthIsLonger = width >= height;
+  const long = widthIsLonger ? width : height;
+  const short = widthIsLonger ? height : width;
+  if (short <= 2 * sin * cos * long || Math.abs(sin - cos) < 1e-10) {
+    // the crop touches both long sides: a "half-constrained" case
+    const x = 0.5 * short;
+    return widthIsLonger ? { width: x / sin, height: x / cos } : { width: x / cos, height: x / sin };
+  }
+  const cos2 = cos * cos - sin * sin;
+  return { width: (width * cos - height * sin) / cos2, height: (height * cos - width * sin) / cos2 };
+};
@@ -0,0 +1,100 @@
+import { estimateStorage, HISTORY_STORE, requestToPromise, withStore } from "./db";
+import { canvasToBlob, createCanvas } from "./image";
+import { decodeBlob, EditOperation } from "./pipeline";
+
+// Everything needed to resume editing from the untouched source
+export interface EditRecipe {
+  original: Blob;
+  operations: EditOperation[];
+}
+
+export interface HistoryRecord {
+  id: number;
+  timestamp: number;
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  bytes: number;
+  mimeType: string;
+  recipe: EditRecipe | null;
+}
+
+export type NewHistoryRecord = Pick<HistoryRecord, "image" | "recipe">;
+
+const THUMB_SIZE = 256;
+// start evicting the oldest entries once the origin uses this share of its quota
+const QUOTA_HIGH_WATER = 0.8;
+export const QUOTA_WARNING = 0.7;
+
+const makeThumbnail = async (image: Blob) => {
+  const bitmap = await decodeBlob(image);
+  const t = Math.min(1, THUMB_SIZE / Math.max(bitmap.width, bitmap.height));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(bitmap.width * t)), Math.max(1, Math.round(bitmap.height * t)));
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return { thumbnail: await canvasToBlob(canvas, "image/jpeg", 0.8), width: bitmap.width, height: bitmap.height };
+};
+
+// newest first
+export const listHistory = () =>
+  withStore(HISTORY_STORE, "readonly", async (store) => {
+    const records = await requestToPromise(store.index("timestamp").getAll() as IDBRequest<HistoryRecord[]>);
+    return records.reverse();
+  });
+
+export const deleteHistory = (id: number) => withStore(HISTORY_STORE, "readwrite", (store) => requestToPromise(store.delete(id)));
+
+export const clearHistory = () => withStore(HISTORY_STORE, "readwrite", (store) => requestToPromise(store.clear()));
+
+const evictOldest = (count: number) =>
+  withStore(HISTORY_STORE, "readwrite", async (store) => {
+    const keys = await requestToPromise(store.index("timestamp").getAllKeys(null, count));
+    for (const key of keys) await requestToPromise(store.delete(key));
+    return keys.length;
+  });
+
+/**
+ * Store a saved image with its thumbnail and recipe. Oldest entries are evicted when
+ * storage runs high or the browser rejects the write for quota; the count is returned.
+ */
+export const addHistory = async ({ image, recipe }: NewHistoryRecord) => {
+  const { thumbnail, width, height } = await makeThumbnail(image);
+  const entry: Omit<HistoryRecord, "id"> = {
+    timestamp: Date.now(),
+    image,
+    thumbnail,
+    width,
+    height,
+    bytes: image.size,
+    mimeType: image.type,
+    recipe,
+  };
+  const incoming = image.size + thumbnail.size + (recipe?.original.size ?? 0);
+
+  let evicted = 0;
+  const estimate = await estimateStorage();
+  if (estimate && estimate.quota > 0) {
+    let usage = estimate.usage + incoming;
+    const records = (await listHistory()).reverse();
+    for (const r of records) {
+      if (usage <= estimate.quota * QUOTA_HIGH_WATER) break;
+      usage -= r.bytes + r.thumbnail.size + (r.recipe?.original.size ?? 0);
+      evicted++;
+    }
+    if (evicted) await evictOldest(evicted);
+  }
+
+  const put = () => withStore(HISTORY_STORE, "readwrite", (store) => requestToPromise(store.add(entry)));
+  for (;;) {
+    try {
+      const id = (await put()) as number;
+      return { id, evicted };
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === "QuotaExceededError")) throw err;
+      // free space a few entries at a time until the write fits or nothing is left
+      const removed = await evictOldest(3);
+      if (removed === 0) throw err;
+      evicted += removed;
+    }
+  }
+};
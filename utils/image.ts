@@ -0,0 +1,62 @@
+// Small helpers shared by the editor tools for loading and drawing images.
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = (err) => reject(err);
+    img.src = src;
+  });
+
+// Workers have no DOM, so there canvases are OffscreenCanvas. They draw the same way;
+// code that runs in the render worker sticks to these types, drawing and canvasToBlob.
+export type DrawingCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const isOffscreen = (canvas: DrawingCanvas): canvas is OffscreenCanvas => typeof OffscreenCanvas !== "undefined" && canvas instanceof OffscreenCanvas;
+
+export const getContext2d = (canvas: DrawingCanvas): DrawingContext => {
+  const ctx = isOffscreen(canvas) ? canvas.getContext("2d") : canvas.getContext("2d");
+  if (!ctx) throw new Error("No canvas context");
+  return ctx;
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = typeof document === "undefined" ? new OffscreenCanvas(width, height) : document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: getContext2d(canvas) };
+};
+
+export const canvasToBlob = (canvas: DrawingCanvas, type: string, quality?: number) =>
+  isOffscreen(canvas)
+    ? canvas.convertToBlob({ type, quality })
+    : new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Encoding failed"))), type, quality);
+      });
+
+// For previews in panels, which draw on the page; OffscreenCanvas can only encode asynchronously.
+export const canvasToDataUrl = (canvas: DrawingCanvas, type?: string, quality?: number) => {
+  if (isOffscreen(canvas)) throw new Error("Only page canvases encode synchronously");
+  return canvas.toDataURL(type, quality);
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
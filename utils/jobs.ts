@@ -0,0 +1,161 @@
+import { EditOperation } from "./pipeline";
+import { cancelledError, JobResult, RenderJob, runRenderJob, swapBlobs, WorkerReply, WorkerRequest } from "./renderJob";
+
+// Queue for heavy pixel work. Jobs run one at a time in a worker with OffscreenCanvas, so
+// the editor keeps responding and only one full-size image is in memory at once. Browsers
+// that can't draw in workers, and jobs that draw text, run the same way here on the page.
+
+export interface JobOptions {
+  // aborting cancels the job: a queued one never starts, a running one stops at its next step
+  signal?: AbortSignal;
+  // 0..1 as the job's steps finish
+  onProgress?: (progress: number) => void;
+}
+
+interface QueuedJob {
+  id: number;
+  job: RenderJob;
+  onProgress?: (progress: number) => void;
+  resolve: (result: JobResult<RenderJob>) => void;
+  reject: (err: unknown) => void;
+  cancelled: boolean;
+  // running here rather than in the worker
+  onPage: boolean;
+}
+
+const queue: QueuedJob[] = [];
+let running: QueuedJob | null = null;
+let nextId = 1;
+// undefined until first needed; null where jobs run on the page
+let worker: Worker | null | undefined;
+// blobs the worker holds, with the ids it knows them by
+const workerBlobs = new Map<Blob, string>();
+let nextBlobId = 1;
+
+const canDrawInWorker = () => {
+  try {
+    return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && !!new OffscreenCanvas(1, 1).getContext("2d");
+  } catch {
+    return false;
+  }
+};
+
+const getWorker = () => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = canDrawInWorker() ? new Worker(new URL("./render.worker.ts", import.meta.url), { type: "module" }) : null;
+  } catch (err) {
+    console.error("Render worker unavailable:", err);
+    worker = null;
+  }
+  if (worker) {
+    worker.onmessage = (e: MessageEvent<WorkerReply>) => handleReply(e.data);
+    // a worker that fails to load or crashes hands its job, and every later one, to the page
+    worker.onerror = (e) => {
+      console.error("Render worker failed:", e.message);
+      worker?.terminate();
+      worker = null;
+      workerBlobs.clear();
+      if (running && !running.onPage) runOnPage(running);
+    };
+  }
+  return worker;
+};
+
+const finish = () => {
+  running = null;
+  runNext();
+};
+
+const handleReply = (reply: WorkerReply) => {
+  const entry = running;
+  if (!entry || entry.id !== reply.id) return;
+  if (reply.type === "progress") {
+    if (!entry.cancelled) entry.onProgress?.(reply.progress);
+    return;
+  }
+  if (reply.type === "done") entry.resolve(reply.result);
+  else entry.reject(reply.cancelled ? cancelledError() : new Error(reply.error));
+  finish();
+};
+
+const runOnPage = (entry: QueuedJob) => {
+  entry.onPage = true;
+  return runRenderJob(entry.job, (done, total) => {
+    if (entry.cancelled) throw cancelledError();
+    entry.onProgress?.(done / total);
+  })
+    .then(entry.resolve, entry.reject)
+    .finally(finish);
+};
+
+const stopWorker = () => {
+  worker?.terminate();
+  worker = undefined;
+  workerBlobs.clear();
+  finish();
+};
+
+const send = (target: Worker, message: WorkerRequest) => target.postMessage(message);
+
+// The job as the worker gets it: blobs it doesn't have yet are sent first, and the rest
+// are referred to by id. Blobs the job doesn't use are released, so the worker only keeps
+// the current image's bitmaps decoded.
+const toWorker = (target: Worker, job: RenderJob) => {
+  const used = new Set<Blob>();
+  const posted = swapBlobs(job, (value) => {
+    const blob = value as Blob;
+    used.add(blob);
+    let id = workerBlobs.get(blob);
+    if (!id) {
+      id = String(nextBlobId++);
+      workerBlobs.set(blob, id);
+      send(target, { type: "blob", id, blob });
+    }
+    return { blobId: id };
+  });
+  for (const [blob, id] of workerBlobs) {
+    if (used.has(blob)) continue;
+    workerBlobs.delete(blob);
+    send(target, { type: "release", id });
+  }
+  return posted;
+};
+
+// Worker canvases only have the installed fonts, not the ones the page has loaded, so jobs
+// that draw text run here, where they match the text tool's preview.
+const isText = (op: EditOperation) => op.type === "text" || (op.type === "watermark" && op.template.kind === "text");
+const drawsText = (job: RenderJob) => (job.type === "batch" ? job.recipe.watermark?.kind === "text" : job.ops.some(isText));
+
+const runNext = () => {
+  if (running) return;
+  const entry = queue.shift();
+  if (!entry) return;
+  running = entry;
+  const target = drawsText(entry.job) ? null : getWorker();
+  if (target) send(target, { type: "run", id: entry.id, job: toWorker(target, entry.job) });
+  else runOnPage(entry);
+};
+
+const cancel = (entry: QueuedJob) => {
+  entry.cancelled = true;
+  // the caller moves on right away; a running job still holds the queue until it stops
+  entry.reject(cancelledError());
+  const i = queue.indexOf(entry);
+  if (i >= 0) queue.splice(i, 1);
+  else if (entry === running && !entry.onPage && worker) {
+    // background removal is one long step, so its worker is ended and a new one takes the next job
+    if (entry.job.type === "removeBackground") stopWorker();
+    else send(worker, { type: "cancel", id: entry.id });
+  }
+};
+
+/** Queue a render job; resolves with its result, or rejects with an AbortError when cancelled. */
+export const runJob = <J extends RenderJob>(job: J, { signal, onProgress }: JobOptions = {}) =>
+  new Promise<JobResult<J>>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const entry: QueuedJob = { id: nextId++, job, onProgress, resolve: resolve as QueuedJob["resolve"], reject, cancelled: false, onPage: false };
+    signal?.addEventListener("abort", () => cancel(entry), { once: true });
+    queue.push(entry);
+    runNext();
+  });
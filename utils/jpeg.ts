@@ -0,0 +1,63 @@
+// Byte-level helpers for JPEG files produced by canvas encoding.
+
+const dataUrlToBytes = (dataUrl: string) => {
+  const bin = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mime: string) => {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(bin)}`;
+};
+
+/**
+ * Write the DPI into the JFIF APP0 header that browsers emit for canvas JPEGs.
+ * Returns the input unchanged when there is no JFIF header to patch.
+ */
+export const setJpegDpi = (dataUrl: string, dpi: number) => {
+  if (!dataUrl.startsWith("data:image/jpeg")) return dataUrl;
+  const bytes = dataUrlToBytes(dataUrl);
+  const isJfif =
+    bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff && bytes[3] === 0xe0 &&
+    String.fromCharCode(bytes[6], bytes[7], bytes[8], bytes[9]) === "JFIF";
+  if (!isJfif) return dataUrl;
+  const d = Math.max(1, Math.min(0xffff, Math.round(dpi)));
+  bytes[13] = 1; // units: dots per inch
+  bytes[14] = d >> 8;
+  bytes[15] = d & 0xff;
+  bytes[16] = d >> 8;
+  bytes[17] = d & 0xff;
+  return bytesToDataUrl(bytes, "image/jpeg");
+};
+
+/**
+ * Insert an APP1 segment (e.g. Exif) after the SOI marker and any JFIF header.
+ * Returns the input unchanged for non-JPEG data or an oversized payload.
+ */
+export const insertApp1 = (dataUrl: string, payload: Uint8Array) => {
+  if (!dataUrl.startsWith("data:image/jpeg") || payload.length + 2 > 0xffff) return dataUrl;
+  const bytes = dataUrlToBytes(dataUrl);
+  let at = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) at = 4 + ((bytes[4] << 8) | bytes[5]);
+  const length = payload.length + 2;
+  const out = new Uint8Array(bytes.length + 2 + length);
+  out.set(bytes.subarray(0, at));
+  out.set([0xff, 0xe1, length >> 8, length & 0xff], at);
+  out.set(payload, at + 4);
+  out.set(bytes.subarray(at), at + 2 + length);
+  return bytesToDataUrl(out, "image/jpeg");
+};
+
+// size in bytes of the payload behind a base64 data URL
+export const dataUrlByteSize = (dataUrl: string) => {
+  const b64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const padding = b64.endsWith("==") ? 2 : b64.endsWith("=") ? 1 : 0;
+  return Math.floor((b64.length * 3) / 4) - padding;
+};
+
+export const dataUrlMimeType = (dataUrl: string) => dataUrl.slice(5, dataUrl.indexOf(";"));
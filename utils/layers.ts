@@ -0,0 +1,78 @@
+import { DrawingContext } from "./image";
+// Image layers composited over the photo, bottom to top. Positions are fractions of the
+// image so the stack renders the same at preview size and at full resolution.
+
+export type BlendMode = "normal" | "multiply" | "screen" | "overlay";
+
+export interface ImageLayer {
+  id: string;
+  name: string;
+  image: Blob;
+  // centre of the layer
+  x: number;
+  y: number;
+  // size as fractions of the image width and height; together they keep the layer's aspect
+  w: number;
+  h: number;
+  rotation: number;
+  opacity: number;
+  blend: BlendMode;
+  visible: boolean;
+  // locked layers can't be moved, resized or rotated
+  locked: boolean;
+}
+
+export const BLEND_MODES: { id: BlendMode; name: string }[] = [
+  { id: "normal", name: "Normal" },
+  { id: "multiply", name: "Multiply" },
+  { id: "screen", name: "Screen" },
+  { id: "overlay", name: "Overlay" },
+];
+
+// canvas composite operations share their names with CSS mix-blend-mode
+export const blendOperation = (blend: BlendMode): GlobalCompositeOperation => (blend === "normal" ? "source-over" : blend);
+
+// longest side of a new layer, as a fraction of the image it is placed on
+const NEW_LAYER_SIZE = 0.5;
+
+/** A centred layer at its true aspect ratio, half the size of the image it goes over. */
+export const createLayer = (image: Blob, name: string, layerSize: { width: number; height: number }, imageSize: { width: number; height: number }): ImageLayer => {
+  const t = (NEW_LAYER_SIZE * Math.min(imageSize.width, imageSize.height)) / Math.max(layerSize.width, layerSize.height);
+  return {
+    id: Math.random().toString(36).slice(2),
+    name,
+    image,
+    x: 0.5,
+    y: 0.5,
+    w: (layerSize.width * t) / imageSize.width,
+    h: (layerSize.height * t) / imageSize.height,
+    rotation: 0,
+    opacity: 1,
+    blend: "normal",
+    visible: true,
+    locked: false,
+  };
+};
+
+export const drawLayer = (ctx: DrawingContext, layer: ImageLayer, image: CanvasImageSource, width: number, height: number) => {
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.globalCompositeOperation = blendOperation(layer.blend);
+  ctx.imageSmoothingQuality = "high";
+  ctx.translate(layer.x * width, layer.y * height);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  const w = layer.w * width;
+  const h = layer.h * height;
+  ctx.drawImage(image, -w / 2, -h / 2, w, h);
+  ctx.restore();
+};
+
+// move one layer up (+1) or down (-1) the stack
+export const moveLayer = (layers: ImageLayer[], id: string, delta: number) => {
+  const i = layers.findIndex((l) => l.id === id);
+  const j = i + delta;
+  if (i < 0 || j < 0 || j >= layers.length) return layers;
+  const next = [...layers];
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+};
@@ -0,0 +1,182 @@
+import { createCanvas, DrawingCanvas } from "./image";
+
+// Tone adjustments driven by lookup tables: input levels (black/white/gamma) followed by
+// tone curves, a master curve for all channels and one per channel.
+
+export type CurveChannel = "rgb" | "r" | "g" | "b";
+export type CurvePoint = [number, number];
+
+export interface LevelsSettings {
+  black: number;
+  white: number;
+  gamma: number;
+}
+
+export interface ToneSettings {
+  levels: LevelsSettings;
+  curves: Record<CurveChannel, CurvePoint[]>;
+}
+
+export interface Histogram {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  luma: Uint32Array;
+  total: number;
+}
+
+const LINEAR: CurvePoint[] = [
+  [0, 0],
+  [255, 255],
+];
+
+export const defaultTone = (): ToneSettings => ({
+  levels: { black: 0, white: 255, gamma: 1 },
+  curves: { rgb: LINEAR, r: LINEAR, g: LINEAR, b: LINEAR },
+});
+
+const isLinear = (points: CurvePoint[]) => points.every(([x, y]) => x === y);
+
+export const isIdentityTone = ({ levels, curves }: ToneSettings) =>
+  levels.black === 0 && levels.white === 255 && levels.gamma === 1 && Object.values(curves).every(isLinear);
+
+export const computeHistogram = (source: CanvasImageSource, width: number, height: number): Histogram => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  const d = ctx.getImageData(0, 0, width, height).data;
+  const hist: Histogram = { r: new Uint32Array(256), g: new Uint32Array(256), b: new Uint32Array(256), luma: new Uint32Array(256), total: 0 };
+  for (let i = 0; i < d.length; i += 4) {
+    if (d[i + 3] === 0) continue;
+    hist.r[d[i]]++;
+    hist.g[d[i + 1]]++;
+    hist.b[d[i + 2]]++;
+    hist.luma[Math.round(0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2])]++;
+    hist.total++;
+  }
+  return hist;
+};
+
+// value at which the cumulative count first passes `fraction` of the total
+const percentile = (bins: Uint32Array, total: number, fraction: number) => {
+  const target = total * fraction;
+  let sum = 0;
+  for (let v = 0; v < 256; v++) {
+    sum += bins[v];
+    if (sum > target) return v;
+  }
+  return 255;
+};
+
+/**
+ * Stretch the luminance range to full black/white, ignoring `clip` of the pixels at
+ * either end, and pick a gamma that puts the median at mid-grey.
+ */
+export const autoLevels = (hist: Histogram, clip = 0.005): LevelsSettings => {
+  if (hist.total === 0) return { black: 0, white: 255, gamma: 1 };
+  let black = percentile(hist.luma, hist.total, clip);
+  let white = percentile(hist.luma, hist.total, 1 - clip);
+  if (white - black < 8) {
+    black = Math.max(0, black - 4);
+    white = Math.min(255, white + 4);
+  }
+  const median = (percentile(hist.luma, hist.total, 0.5) - black) / (white - black);
+  const gamma = median > 0 && median < 1 ? Math.log(median) / Math.log(0.5) : 1;
+  return { black, white, gamma: Math.round(Math.min(2.5, Math.max(0.4, gamma)) * 100) / 100 };
+};
+
+const levelsLut = ({ black, white, gamma }: LevelsSettings) => {
+  const lut = new Float64Array(256);
+  const range = Math.max(1, white - black);
+  for (let v = 0; v < 256; v++) {
+    const t = Math.min(1, Math.max(0, (v - black) / range));
+    lut[v] = 255 * Math.pow(t, 1 / gamma);
+  }
+  return lut;
+};
+
+/**
+ * Monotone cubic (Fritsch–Carlson) through the curve points, sampled at 0..255.
+ * Unlike a plain spline it never overshoots, so tones can't invert between points.
+ */
+export const curveLut = (points: CurvePoint[]) => {
+  const pts = [...points].sort((a, b) => a[0] - b[0]);
+  const lut = new Float64Array(256);
+  const n = pts.length;
+  if (n < 2) {
+    for (let v = 0; v < 256; v++) lut[v] = n ? pts[0][1] : v;
+    return lut;
+  }
+  const dx: number[] = [];
+  const slope: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    dx.push(Math.max(1e-6, pts[i + 1][0] - pts[i][0]));
+    slope.push((pts[i + 1][1] - pts[i][1]) / dx[i]);
+  }
+  const tangent = [slope[0]];
+  for (let i = 1; i < n - 1; i++) tangent.push(slope[i - 1] * slope[i] <= 0 ? 0 : (slope[i - 1] + slope[i]) / 2);
+  tangent.push(slope[n - 2]);
+  for (let i = 0; i < n - 1; i++) {
+    if (slope[i] === 0) {
+      tangent[i] = tangent[i + 1] = 0;
+      continue;
+    }
+    const a = tangent[i] / slope[i];
+    const b = tangent[i + 1] / slope[i];
+    const s = a * a + b * b;
+    if (s > 9) {
+      const k = 3 / Math.sqrt(s);
+      tangent[i] = k * a * slope[i];
+      tangent[i + 1] = k * b * slope[i];
+    }
+  }
+  let seg = 0;
+  for (let v = 0; v < 256; v++) {
+    if (v <= pts[0][0]) {
+      lut[v] = pts[0][1];
+      continue;
+    }
+    if (v >= pts[n - 1][0]) {
+      lut[v] = pts[n - 1][1];
+      continue;
+    }
+    while (v > pts[seg + 1][0]) seg++;
+    const t = (v - pts[seg][0]) / dx[seg];
+    const t2 = t * t;
+    const t3 = t2 * t;
+    lut[v] =
+      (2 * t3 - 3 * t2 + 1) * pts[seg][1] +
+      (t3 - 2 * t2 + t) * dx[seg] * tangent[seg] +
+      (-2 * t3 + 3 * t2) * pts[seg + 1][1] +
+      (t3 - t2) * dx[seg] * tangent[seg + 1];
+  }
+  return lut;
+};
+
+const sample = (lut: Float64Array, v: number) => lut[Math.min(255, Math.max(0, Math.round(v)))];
+
+// one table per channel: levels, then the master curve, then the channel curve
+export const toneLuts = ({ levels, curves }: ToneSettings) => {
+  const lv = levelsLut(levels);
+  const master = curveLut(curves.rgb);
+  return (["r", "g", "b"] as const).map((channel) => {
+    const own = curveLut(curves[channel]);
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) lut[v] = sample(own, sample(master, lv[v]));
+    return lut;
+  });
+};
+
+export const applyTone = (input: DrawingCanvas, settings: ToneSettings) => {
+  const { canvas, ctx } = createCanvas(input.width, input.height);
+  ctx.drawImage(input, 0, 0);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const d = image.data;
+  const [r, g, b] = toneLuts(settings);
+  for (let i = 0; i < d.length; i += 4) {
+    d[i] = r[d[i]];
+    d[i + 1] = g[d[i + 1]];
+    d[i + 2] = b[d[i + 2]];
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,199 @@
+import { createCanvas, DrawingCanvas, DrawingContext } from "./image";
+
+// Annotation shapes drawn over the image. Points are fractions (0..1) of the image and
+// stroke widths are fractions of its shorter side, so shapes render the same at any size.
+
+export type MarkupKind = "pen" | "highlighter" | "line" | "arrow" | "rect" | "ellipse";
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+  // pen pressure 0..1; 0.5 when the device doesn't report it
+  p: number;
+}
+
+// freehand strokes
+export interface StrokeShape {
+  id: string;
+  kind: "pen" | "highlighter";
+  points: StrokePoint[];
+  color: string;
+  width: number;
+}
+
+// lines, arrows and outlines, dragged out from one corner to the other
+export interface SpanShape {
+  id: string;
+  kind: "line" | "arrow" | "rect" | "ellipse";
+  from: StrokePoint;
+  to: StrokePoint;
+  color: string;
+  width: number;
+}
+
+export type MarkupShape = StrokeShape | SpanShape;
+
+export const isStroke = (shape: MarkupShape): shape is StrokeShape => shape.kind === "pen" || shape.kind === "highlighter";
+
+export const MARKUP_KINDS: { id: MarkupKind; name: string }[] = [
+  { id: "pen", name: "Pen" },
+  { id: "highlighter", name: "Highlighter" },
+  { id: "line", name: "Line" },
+  { id: "arrow", name: "Arrow" },
+  { id: "rect", name: "Rectangle" },
+  { id: "ellipse", name: "Ellipse" },
+];
+
+export const MARKUP_COLORS = ["#ef4444", "#f59e0b", "#facc15", "#22c55e", "#3b82f6", "#000000", "#ffffff"];
+
+// highlighters draw this much wider than the chosen width
+export const HIGHLIGHTER_WIDTH = 4;
+
+export const createShape = (kind: MarkupKind, at: StrokePoint, color: string, width: number): MarkupShape => {
+  const id = Math.random().toString(36).slice(2);
+  if (kind === "pen" || kind === "highlighter") {
+    return { id, kind, points: [at], color, width: kind === "highlighter" ? width * HIGHLIGHTER_WIDTH : width };
+  }
+  return { id, kind, from: at, to: at, color, width };
+};
+
+// pressure-sensitive devices report 0..1 while pressed; mice and most touch screens don't
+export const pointerPressure = (e: { pointerType: string; pressure: number }) => (e.pointerType === "pen" && e.pressure > 0 ? e.pressure : 0.5);
+
+/** Draw one shape onto a width × height image area at the context's current origin. */
+export const drawShape = (ctx: DrawingContext, shape: MarkupShape, width: number, height: number) => {
+  const lw = Math.max(1, shape.width * Math.min(width, height));
+  const at = (p: StrokePoint) => ({ x: p.x * width, y: p.y * height });
+  ctx.save();
+  ctx.strokeStyle = shape.color;
+  ctx.fillStyle = shape.color;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  if (shape.kind === "highlighter") {
+    // one path so overlapping parts of the stroke don't darken
+    ctx.globalAlpha = 0.4;
+    ctx.globalCompositeOperation = "multiply";
+    ctx.lineWidth = lw;
+    ctx.beginPath();
+    shape.points.forEach((p, i) => (i === 0 ? ctx.moveTo(at(p).x, at(p).y) : ctx.lineTo(at(p).x, at(p).y)));
+    if (shape.points.length === 1) ctx.lineTo(at(shape.points[0]).x + 0.01, at(shape.points[0]).y);
+    ctx.stroke();
+  } else if (isStroke(shape)) {
+    // segment by segment so the width follows the pressure (0.5 draws at the chosen width)
+    const pts = shape.points.map(at);
+    if (pts.length === 1) {
+      ctx.beginPath();
+      ctx.arc(pts[0].x, pts[0].y, lw * shape.points[0].p, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    for (let i = 1; i < pts.length; i++) {
+      ctx.lineWidth = lw * (shape.points[i - 1].p + shape.points[i].p);
+      ctx.beginPath();
+      ctx.moveTo(pts[i - 1].x, pts[i - 1].y);
+      ctx.lineTo(pts[i].x, pts[i].y);
+      ctx.stroke();
+    }
+  } else {
+    const a = at(shape.from);
+    const b = at(shape.to);
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+    const head = Math.min(lw * 4, Math.hypot(b.x - a.x, b.y - a.y) * 0.5);
+    ctx.lineWidth = lw;
+    ctx.beginPath();
+    if (shape.kind === "rect") {
+      ctx.rect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+    } else if (shape.kind === "ellipse") {
+      ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, 0, 0, Math.PI * 2);
+    } else {
+      // stop the shaft inside the arrow head so the thick line doesn't poke through its tip
+      const back = shape.kind === "arrow" ? head * 0.5 : 0;
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x - Math.cos(angle) * back, b.y - Math.sin(angle) * back);
+    }
+    ctx.stroke();
+    if (shape.kind === "arrow") {
+      ctx.beginPath();
+      ctx.moveTo(b.x, b.y);
+      ctx.lineTo(b.x - head * Math.cos(angle - Math.PI / 7), b.y - head * Math.sin(angle - Math.PI / 7));
+      ctx.lineTo(b.x - head * Math.cos(angle + Math.PI / 7), b.y - head * Math.sin(angle + Math.PI / 7));
+      ctx.closePath();
+      ctx.fill();
+    }
+  }
+  ctx.restore();
+};
+
+export const renderMarkup = (input: DrawingCanvas, shapes: MarkupShape[]) => {
+  const { canvas, ctx } = createCanvas(input.width, input.height);
+  ctx.drawImage(input, 0, 0);
+  for (const shape of shapes) drawShape(ctx, shape, canvas.width, canvas.height);
+  return canvas;
+};
+
+// bounding box as fractions of the image, stroke not included
+export const shapeBounds = (shape: MarkupShape) => {
+  const pts = isStroke(shape) ? shape.points : [shape.from, shape.to];
+  const xs = pts.map((p) => p.x);
+  const ys = pts.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+const segmentDistance = (px: number, py: number, ax: number, ay: number, bx: number, by: number) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len = dx * dx + dy * dy;
+  const t = len ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / len)) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+/**
+ * Whether a point (fractions of the image) lies on the shape's outline, within `tolerance`
+ * pixels plus half the stroke. Rectangles and ellipses are hollow, so only the outline counts.
+ */
+export const hitTestShape = (shape: MarkupShape, x: number, y: number, width: number, height: number, tolerance: number) => {
+  const px = x * width;
+  const py = y * height;
+  const reach = tolerance + (shape.width * Math.min(width, height)) / 2;
+  if (isStroke(shape)) {
+    const pts = shape.points.map((p) => ({ x: p.x * width, y: p.y * height }));
+    if (pts.length === 1) return Math.hypot(px - pts[0].x, py - pts[0].y) <= reach;
+    for (let i = 1; i < pts.length; i++) {
+      if (segmentDistance(px, py, pts[i - 1].x, pts[i - 1].y, pts[i].x, pts[i].y) <= reach) return true;
+    }
+    return false;
+  }
+  const a = { x: shape.from.x * width, y: shape.from.y * height };
+  const b = { x: shape.to.x * width, y: shape.to.y * height };
+  if (shape.kind === "line" || shape.kind === "arrow") return segmentDistance(px, py, a.x, a.y, b.x, b.y) <= reach;
+  if (shape.kind === "rect") {
+    const corners = [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+    return corners.some((c, i) => {
+      const d = corners[(i + 1) % 4];
+      return segmentDistance(px, py, c.x, c.y, d.x, d.y) <= reach;
+    });
+  }
+  // ellipse: distance along the ray from the centre, close enough for picking
+  const cx = (a.x + b.x) / 2;
+  const cy = (a.y + b.y) / 2;
+  const rx = Math.max(1, Math.abs(b.x - a.x) / 2);
+  const ry = Math.max(1, Math.abs(b.y - a.y) / 2);
+  const r = Math.hypot((px - cx) / rx, (py - cy) / ry);
+  return Math.abs(r - 1) * Math.min(rx, ry) <= reach;
+};
+
+// topmost shape under the point, or null
+export const shapeAt = (shapes: MarkupShape[], x: number, y: number, width: number, height: number, tolerance = 8) => {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    if (hitTestShape(shapes[i], x, y, width, height, tolerance)) return shapes[i];
+  }
+  return null;
+};
+
+export const moveShape = (shape: MarkupShape, dx: number, dy: number): MarkupShape => {
+  const move = (p: StrokePoint) => ({ ...p, x: p.x + dx, y: p.y + dy });
+  if (isStroke(shape)) return { ...shape, points: shape.points.map(move) };
+  return { ...shape, from: move(shape.from), to: move(shape.to) };
+};
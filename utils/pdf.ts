@@ -0,0 +1,232 @@
+import { canvasToBlob, createCanvas } from "./image";
+import { decodeUpright, NormalizedRect } from "./pipeline";
+
+// Minimal PDF writer: one JPEG per page, embedded as-is (DCTDecode), so pages are never
+// re-encoded by the writer and nothing leaves the device.
+
+export type PaperSize = "a4" | "letter" | "legal" | "photo-4x6" | "photo-5x7";
+export type PageOrientation = "auto" | "portrait" | "landscape";
+// fit shows the whole image inside the margins; fill covers the area and crops the overflow
+export type PageFit = "fit" | "fill";
+
+export interface PdfPageOptions {
+  paper: PaperSize;
+  orientation: PageOrientation;
+  marginMM: number;
+  fit: PageFit;
+}
+
+// sizes in PDF points (1/72 inch), portrait
+export const PAPER_SIZES: { id: PaperSize; name: string; width: number; height: number }[] = [
+  { id: "a4", name: "A4", width: 595.28, height: 841.89 },
+  { id: "letter", name: "Letter", width: 612, height: 792 },
+  { id: "legal", name: "Legal", width: 612, height: 1008 },
+  { id: "photo-4x6", name: "4×6 in", width: 288, height: 432 },
+  { id: "photo-5x7", name: "5×7 in", width: 360, height: 504 },
+];
+
+export const DEFAULT_PDF_OPTIONS: PdfPageOptions = { paper: "a4", orientation: "auto", marginMM: 10, fit: "fit" };
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+// pages never need more detail than this for print or on screen
+export const PDF_MAX_DPI = 300;
+
+const MM = 72 / 25.4;
+// keep at least an inch of page for the image, whatever the margins
+const MIN_CONTENT = 72;
+
+export interface PdfPage {
+  jpeg: Blob;
+  width: number;
+  height: number;
+}
+
+type Box = { x: number; y: number; w: number; h: number };
+
+// page size in points for an image of the given aspect
+export const pageSize = (options: PdfPageOptions, imageWidth: number, imageHeight: number) => {
+  const paper = PAPER_SIZES.find((p) => p.id === options.paper) ?? PAPER_SIZES[0];
+  const landscape = options.orientation === "auto" ? imageWidth > imageHeight : options.orientation === "landscape";
+  return landscape ? { width: paper.height, height: paper.width } : { width: paper.width, height: paper.height };
+};
+
+// the area inside the margins, in points from the bottom-left corner
+const contentBox = (page: { width: number; height: number }, marginMM: number): Box => {
+  const m = Math.max(0, Math.min(marginMM * MM, (Math.min(page.width, page.height) - MIN_CONTENT) / 2));
+  return { x: m, y: m, w: page.width - 2 * m, h: page.height - 2 * m };
+};
+
+// where the image is drawn on the page; with fill it overflows the content box
+const placeImage = (content: Box, width: number, height: number, fit: PageFit): Box => {
+  const s = (fit === "fill" ? Math.max : Math.min)(content.w / width, content.h / height);
+  const w = width * s;
+  const h = height * s;
+  return { x: content.x + (content.w - w) / 2, y: content.y + (content.h - h) / 2, w, h };
+};
+
+const layout = (options: PdfPageOptions, width: number, height: number) => {
+  const content = contentBox(pageSize(options, width, height), options.marginMM);
+  const shown = placeImage(content, width, height, options.fit);
+  const w = Math.min(1, content.w / shown.w);
+  const h = Math.min(1, content.h / shown.h);
+  return { shown, visible: { x: (1 - w) / 2, y: (1 - h) / 2, w, h } };
+};
+
+// the part of a width × height image that ends up on its page: all of it unless filling
+export const visiblePart = (options: PdfPageOptions, width: number, height: number): NormalizedRect => layout(options, width, height).visible;
+
+/**
+ * Draw a source as the image for one page: cropped to the visible part when filling, and
+ * downscaled so it prints at no more than `dpi`. `scale` shrinks it further for size targets.
+ */
+export const renderPage = (source: CanvasImageSource & { width: number; height: number }, options: PdfPageOptions, dpi?: number, scale = 1) => {
+  const { shown, visible } = layout(options, source.width, source.height);
+  const sw = visible.w * source.width;
+  const sh = visible.h * source.height;
+  const sx = visible.x * source.width;
+  const sy = visible.y * source.height;
+  // printed width in points
+  const printed = visible.w * shown.w;
+  const t = Math.min(1, dpi ? ((printed / 72) * dpi) / sw : 1) * scale;
+
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(sw * t)), Math.max(1, Math.round(sh * t)));
+  ctx.fillStyle = "#fff"; // JPEG has no alpha
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const num = (v: number) => String(Math.round(v * 100) / 100);
+
+/**
+ * Write a PDF with one image per page. Images are centred inside the margins; with fill the
+ * overflow is clipped, though renderPage already crops it so the file doesn't carry it.
+ */
+export const createPdf = (pages: PdfPage[], options: PdfPageOptions) => {
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Blob) => {
+    parts.push(part);
+    length += typeof part === "string" ? part.length : part.size;
+  };
+  const object = (id: number, dictionary: string, stream?: string | Blob) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${dictionary}\n`);
+    if (stream !== undefined) {
+      write("stream\n");
+      write(stream);
+      write("\nendstream\n");
+    }
+    write("endobj\n");
+  };
+
+  write("%PDF-1.4\n");
+  write(new Blob([new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])])); // binary marker for transfer tools
+
+  // 1 catalog, 2 page tree, then page, content and image objects for each page
+  const pageId = (i: number) => 3 + i * 3;
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const size = pageSize(options, page.width, page.height);
+    const content = contentBox(size, options.marginMM);
+    const box = placeImage(content, page.width, page.height, options.fit);
+    const clip = options.fit === "fill" ? `${num(content.x)} ${num(content.y)} ${num(content.w)} ${num(content.h)} re W n\n` : "";
+    const draw = `q\n${clip}${num(box.w)} 0 0 ${num(box.h)} ${num(box.x)} ${num(box.y)} cm\n/Im0 Do\nQ`;
+
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(size.width)} ${num(size.height)}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    object(id + 1, `<< /Length ${draw.length} >>`, draw);
+    object(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.size} >>`,
+      page.jpeg
+    );
+  });
+
+  const xref = length;
+  const count = pageId(pages.length);
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(parts, { type: PDF_MIME_TYPE });
+};
+
+export interface PdfBuildOptions extends PdfPageOptions {
+  // 1..100, the most a size target may use
+  quality: number;
+  // total file size limit; null encodes every page at `quality`
+  maxKB: number | null;
+}
+
+export interface PdfBuildResult {
+  blob: Blob;
+  quality: number;
+  // 1 unless pages had to be shrunk to meet the size limit
+  scale: number;
+}
+
+// qualities tried against a size limit, best first; one shared quality keeps pages consistent
+const QUALITY_STEPS = [0.92, 0.85, 0.75, 0.65, 0.55, 0.45, 0.35, 0.25, 0.15, 0.05];
+const MAX_DOWNSCALES = 8;
+// generous estimate of everything in the file besides the JPEGs
+const overheadBytes = (pages: number) => 512 + pages * 512;
+
+/**
+ * Combine images into one PDF, one per page in the given order. With a size limit every
+ * page is encoded at the same quality, the highest whose total fits; the pages shrink only
+ * when even the lowest quality is too big. Images are decoded one at a time to bound memory.
+ */
+export const buildPdf = async (images: Blob[], options: PdfBuildOptions): Promise<PdfBuildResult> => {
+  const render = async (i: number, scale: number) => {
+    const bitmap = await decodeUpright(images[i]);
+    try {
+      return renderPage(bitmap, options, PDF_MAX_DPI, scale);
+    } finally {
+      bitmap.close();
+    }
+  };
+
+  const encodeAll = async (scale: number, quality: number) => {
+    const pages: PdfPage[] = [];
+    for (let i = 0; i < images.length; i++) {
+      const canvas = await render(i, scale);
+      pages.push({ jpeg: await canvasToBlob(canvas, "image/jpeg", quality), width: canvas.width, height: canvas.height });
+    }
+    return createPdf(pages, options);
+  };
+
+  const top = Math.max(0.01, Math.min(1, options.quality / 100));
+  if (!options.maxKB) return { blob: await encodeAll(1, top), quality: Math.round(top * 100), scale: 1 };
+
+  const maxBytes = options.maxKB * 1024;
+  const qualities = [top, ...QUALITY_STEPS.filter((q) => q < top)];
+  let scale = 1;
+
+  for (let round = 0; round <= MAX_DOWNSCALES; round++) {
+    // total JPEG bytes for each candidate quality, rendering each page once
+    const totals = qualities.map(() => 0);
+    for (let i = 0; i < images.length; i++) {
+      const canvas = await render(i, scale);
+      for (let q = 0; q < qualities.length; q++) totals[q] += (await canvasToBlob(canvas, "image/jpeg", qualities[q])).size;
+    }
+    const budget = maxBytes - overheadBytes(images.length);
+    const fits = totals.findIndex((total) => total <= budget);
+    if (fits >= 0) {
+      const blob = await encodeAll(scale, qualities[fits]);
+      if (blob.size <= maxBytes) return { blob, quality: Math.round(qualities[fits] * 100), scale };
+    }
+    // area scales roughly linearly with bytes, so shrink by the square root
+    const smallest = totals[totals.length - 1];
+    scale *= Math.min(0.9, Math.sqrt(Math.max(0, budget) / smallest) * 0.95);
+  }
+  throw new Error(`Could not get the PDF under ${options.maxKB} KB`);
+};
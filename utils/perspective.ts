@@ -0,0 +1,268 @@
+import { createCanvas, DrawingCanvas, getContext2d } from "./image";
+
+// Perspective correction for photographed documents: map a four-corner quad onto a
+// flat rectangle, plus scan clean-up. Corners are fractions (0..1) of the input image,
+// in the order top-left, top-right, bottom-right, bottom-left.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Quad = [Point, Point, Point, Point];
+
+export type PaperId = "auto" | "a4" | "letter" | "id-card";
+
+// long / short side; "auto" keeps the proportions measured from the quad
+export const PAPER_SIZES: { id: PaperId; name: string; ratio: number | null }[] = [
+  { id: "auto", name: "As photographed", ratio: null },
+  { id: "a4", name: "A4", ratio: 297 / 210 },
+  { id: "letter", name: "Letter", ratio: 11 / 8.5 },
+  { id: "id-card", name: "ID card", ratio: 85.6 / 53.98 },
+];
+
+export type ScanMode = "clean" | "bw";
+
+// keep the flattened page within what mobile canvases handle
+const MAX_SIDE = 6000;
+
+export const defaultQuad = (): Quad => [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.9, y: 0.9 },
+  { x: 0.1, y: 0.9 },
+];
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// pixel size of the flattened page for a quad on a width × height image
+export const perspectiveOutputSize = (width: number, height: number, quad: Quad, paper: PaperId) => {
+  const [tl, tr, br, bl] = quad.map((p) => ({ x: p.x * width, y: p.y * height }));
+  let w = Math.max(dist(tl, tr), dist(bl, br));
+  let h = Math.max(dist(tl, bl), dist(tr, br));
+  const ratio = PAPER_SIZES.find((p) => p.id === paper)?.ratio;
+  if (ratio) {
+    // same orientation as the photo, at the resolution of its longer side
+    if (w >= h) {
+      w = Math.max(w, h * ratio);
+      h = w / ratio;
+    } else {
+      h = Math.max(h, w * ratio);
+      w = h / ratio;
+    }
+  }
+  const fit = Math.min(1, MAX_SIDE / Math.max(w, h));
+  return { width: Math.max(1, Math.round(w * fit)), height: Math.max(1, Math.round(h * fit)) };
+};
+
+// 3×3 homography (h[8] = 1) taking each `from` point to the matching `to` point
+const solveHomography = (from: Point[], to: Point[]) => {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  // Gaussian elimination with partial pivoting on the 8×9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error("Corners must form a four-sided shape");
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const f = a[r][col] / a[col][col];
+      for (let c = col; c < 9; c++) a[r][c] -= f * a[col][c];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+};
+
+/**
+ * Flatten the quad into an outWidth × outHeight image. Each output pixel is mapped back
+ * into the source and sampled bilinearly.
+ */
+export const warpPerspective = (input: DrawingCanvas, quad: Quad, outWidth: number, outHeight: number) => {
+  const { width: w, height: h } = input;
+  const src = getContext2d(input).getImageData(0, 0, w, h).data;
+  const corners = quad.map((p) => ({ x: p.x * w, y: p.y * h }));
+  const rect = [
+    { x: 0, y: 0 },
+    { x: outWidth, y: 0 },
+    { x: outWidth, y: outHeight },
+    { x: 0, y: outHeight },
+  ];
+  const m = solveHomography(rect, corners);
+  const { canvas, ctx } = createCanvas(outWidth, outHeight);
+  const out = ctx.createImageData(outWidth, outHeight);
+  const d = out.data;
+  for (let y = 0; y < outHeight; y++) {
+    const py = y + 0.5;
+    for (let x = 0; x < outWidth; x++) {
+      const px = x + 0.5;
+      const z = m[6] * px + m[7] * py + m[8];
+      const sx = Math.min(w - 1, Math.max(0, (m[0] * px + m[1] * py + m[2]) / z - 0.5));
+      const sy = Math.min(h - 1, Math.max(0, (m[3] * px + m[4] * py + m[5]) / z - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(w - 1, x0 + 1);
+      const y1 = Math.min(h - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * w + x0) * 4;
+      const i10 = (y0 * w + x1) * 4;
+      const i01 = (y1 * w + x0) * 4;
+      const i11 = (y1 * w + x1) * 4;
+      const o = (y * outWidth + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        d[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+const grayscale = (d: Uint8ClampedArray) => {
+  const g = new Uint8ClampedArray(d.length / 4);
+  for (let i = 0, j = 0; i < d.length; i += 4, j++) g[j] = 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+  return g;
+};
+
+// threshold that best splits the values into two classes
+const otsu = (values: Uint8ClampedArray) => {
+  const hist = new Array(256).fill(0);
+  for (const v of values) hist[v]++;
+  const total = values.length;
+  let sum = 0;
+  for (let v = 0; v < 256; v++) sum += v * hist[v];
+  let sumB = 0;
+  let weightB = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let v = 0; v < 256; v++) {
+    weightB += hist[v];
+    if (weightB === 0) continue;
+    const weightF = total - weightB;
+    if (weightF === 0) break;
+    sumB += v * hist[v];
+    const between = weightB * weightF * (sumB / weightB - (sum - sumB) / weightF) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = v;
+    }
+  }
+  return threshold;
+};
+
+const DETECT_SIZE = 256;
+
+/**
+ * Guess the paper corners: the largest bright region that touches the middle of the
+ * photo, with its extreme points as corners. Returns null when nothing page-like is found.
+ */
+export const detectDocumentCorners = (source: CanvasImageSource, width: number, height: number): Quad | null => {
+  const t = Math.min(1, DETECT_SIZE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * t));
+  const h = Math.max(1, Math.round(height * t));
+  const { ctx } = createCanvas(w, h);
+  ctx.filter = "blur(2px)";
+  ctx.drawImage(source, 0, 0, w, h);
+  const gray = grayscale(ctx.getImageData(0, 0, w, h).data);
+  const level = otsu(gray);
+
+  // flood fill bright pixels outward from the centre region
+  const seen = new Uint8Array(w * h);
+  let best: number[] = [];
+  for (let sy = Math.floor(h * 0.4); sy <= h * 0.6; sy += 2) {
+    for (let sx = Math.floor(w * 0.4); sx <= w * 0.6; sx += 2) {
+      const start = sy * w + sx;
+      if (seen[start] || gray[start] <= level) continue;
+      const region: number[] = [];
+      const stack = [start];
+      seen[start] = 1;
+      while (stack.length) {
+        const i = stack.pop()!;
+        region.push(i);
+        const x = i % w;
+        const y = (i - x) / w;
+        const next = [x > 0 ? i - 1 : -1, x < w - 1 ? i + 1 : -1, y > 0 ? i - w : -1, y < h - 1 ? i + w : -1];
+        for (const n of next) {
+          if (n >= 0 && !seen[n] && gray[n] > level) {
+            seen[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+      if (region.length > best.length) best = region;
+    }
+  }
+  if (best.length < w * h * 0.15) return null;
+
+  // corners are where x + y and x - y are smallest and largest
+  let tl = best[0];
+  let tr = best[0];
+  let br = best[0];
+  let bl = best[0];
+  const coords = (i: number) => {
+    const x = i % w;
+    return { x, y: (i - x) / w };
+  };
+  for (const i of best) {
+    const p = coords(i);
+    const ptl = coords(tl);
+    const ptr = coords(tr);
+    const pbr = coords(br);
+    const pbl = coords(bl);
+    if (p.x + p.y < ptl.x + ptl.y) tl = i;
+    if (p.x - p.y > ptr.x - ptr.y) tr = i;
+    if (p.x + p.y > pbr.x + pbr.y) br = i;
+    if (p.x - p.y < pbl.x - pbl.y) bl = i;
+  }
+  return [tl, tr, br, bl].map((i) => {
+    const p = coords(i);
+    return { x: (p.x + 0.5) / w, y: (p.y + 0.5) / h };
+  }) as Quad;
+};
+
+/**
+ * "Clean scan": divide out uneven lighting so the paper turns white, then deepen the ink.
+ * "bw" goes on to a black-and-white threshold. The lighting estimate is sized relative
+ * to the page, so previews and full-resolution exports match.
+ */
+export const applyScanMode = (input: DrawingCanvas, mode: ScanMode) => {
+  const { width: w, height: h } = input;
+  // lighting estimate: the page shrunk far enough that text disappears, then blurred back up
+  const small = createCanvas(Math.max(1, Math.round(w / 24)), Math.max(1, Math.round(h / 24)));
+  small.ctx.filter = "blur(2px)";
+  small.ctx.drawImage(input, 0, 0, small.canvas.width, small.canvas.height);
+  const background = createCanvas(w, h);
+  background.ctx.imageSmoothingQuality = "high";
+  background.ctx.drawImage(small.canvas, 0, 0, w, h);
+  const bg = background.ctx.getImageData(0, 0, w, h).data;
+
+  const { canvas, ctx } = createCanvas(w, h);
+  ctx.drawImage(input, 0, 0);
+  const image = ctx.getImageData(0, 0, w, h);
+  const d = image.data;
+  for (let i = 0; i < d.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const v = Math.min(1, d[i + c] / Math.max(1, bg[i + c]));
+      // steepen the curve so faint paper texture goes white and strokes go dark
+      d[i + c] = 255 * Math.pow(Math.min(1, Math.max(0, (v - 0.25) / 0.65)), 1.6);
+    }
+  }
+  if (mode === "bw") {
+    const gray = grayscale(d);
+    const level = otsu(gray);
+    for (let i = 0, j = 0; i < d.length; i += 4, j++) {
+      const v = gray[j] > level ? 255 : 0;
+      d[i] = d[i + 1] = d[i + 2] = v;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
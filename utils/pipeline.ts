@@ -0,0 +1,389 @@
+import { blobToDataUrl, canvasToBlob, createCanvas, DrawingCanvas } from "./image";
+import { resampleCanvas, ResampleQuality } from "./resize";
+import { compressToTargetSize } from "./compress";
+import { setJpegDpi } from "./jpeg";
+import { applyFilter, FilterId, filterName } from "./filters";
+import { applyTone, ToneSettings } from "./levels";
+import { largestInscribedRect } from "./geometry";
+import { renderTextBoxes, TextBox } from "./text";
+import { MarkupShape, renderMarkup } from "./markup";
+import { drawLayer, ImageLayer } from "./layers";
+import { renderWatermark, WatermarkTemplate } from "./watermark";
+import { Cutout, renderCutout } from "./cutout";
+import { upscaleCanvas, UpscaleFactor } from "./upscale";
+import { neutralizeOrientation, orientImage } from "./exif";
+import { applyRedaction, detailCorrelation, RedactRegion, RedactStyle } from "./redact";
+import { applyScanMode, PaperId, perspectiveOutputSize, Quad, ScanMode, warpPerspective } from "./perspective";
+
+// Rectangles are stored as fractions (0..1) of the image entering that step,
+// so the same operation renders at preview size and at full resolution.
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export type EditOperation =
+  | { type: "crop"; rect: NormalizedRect }
+  | { type: "rotate"; degrees: 90 | 180 | 270 }
+  // fine rotation (clockwise degrees), cropped to the largest rectangle without empty corners
+  | { type: "straighten"; angle: number }
+  | { type: "flip"; axis: "horizontal" | "vertical" }
+  // four-corner document flattening, corners as fractions of the image
+  | { type: "perspective"; quad: Quad; paper: PaperId }
+  | { type: "scan"; mode: ScanMode }
+  | { type: "resize"; width: number; height: number; quality: ResampleQuality }
+  // enlargement with Lanczos resampling and edge-aware sharpening (0-100)
+  | { type: "upscale"; factor: UpscaleFactor; sharpen: number }
+  | { type: "adjust"; brightness: number; contrast: number; saturation: number }
+  | { type: "filter"; filter: FilterId; intensity: number }
+  | { type: "levels"; tone: ToneSettings }
+  // image layers, bottom to top; the last stack stays editable until something reshapes the image
+  | { type: "layers"; layers: ImageLayer[] }
+  // a copy of the template, so later edits to the saved template don't change this image
+  | { type: "watermark"; template: WatermarkTemplate }
+  | { type: "text"; boxes: TextBox[] }
+  // irreversible cover-up of sensitive regions; `color` is used by the "fill" style
+  | { type: "redact"; regions: RedactRegion[]; style: RedactStyle; color: string }
+  // annotations; coordinates are fractions of the image
+  | { type: "markup"; shapes: MarkupShape[] }
+  // subject cut out with a mask over a new background; the last one stays editable like layers
+  | { type: "cutout"; cutout: Cutout }
+  // encoding settings; they don't touch pixels and only apply when exporting
+  | { type: "compress"; quality?: number; maxKB?: number; minKB?: number; dpi?: number };
+
+export interface EncodedImage {
+  dataUrl: string;
+  bytes: number;
+  width: number;
+  height: number;
+  quality: number;
+  belowMin: boolean;
+}
+
+export const describeOperation = (op: EditOperation) => {
+  switch (op.type) {
+    case "crop":
+      return "Crop";
+    case "rotate":
+      return `Rotate ${op.degrees}°`;
+    case "straighten":
+      return `Straighten ${op.angle > 0 ? "+" : ""}${op.angle}°`;
+    case "flip":
+      return op.axis === "horizontal" ? "Flip H" : "Flip V";
+    case "perspective":
+      return "Flatten document";
+    case "scan":
+      return op.mode === "bw" ? "B&W scan" : "Clean scan";
+    case "resize":
+      return `Resize ${op.width}×${op.height}`;
+    case "upscale":
+      return `Upscale ${op.factor}×`;
+    case "adjust":
+      return "Enhance";
+    case "filter":
+      return `${filterName(op.filter)} ${op.intensity}%`;
+    case "levels":
+      return "Levels & Curves";
+    case "watermark":
+      return `Watermark "${op.template.name}"`;
+    case "layers":
+      return op.layers.length === 1 ? `Layer "${op.layers[0].name}"` : `Layers (${op.layers.length})`;
+    case "text":
+      return op.boxes.length === 1 ? `Text "${op.boxes[0].text.split("\n")[0]}"` : `Text (${op.boxes.length})`;
+    case "redact":
+      return `Redact (${op.regions.length})`;
+    case "markup":
+      return `Markup (${op.shapes.length})`;
+    case "cutout":
+      return op.cutout.background.kind === "none" ? "Remove BG" : "Replace background";
+    case "compress":
+      return op.maxKB ? `Compress ≤ ${op.maxKB} KB` : `Compress q${op.quality ?? 92}`;
+  }
+};
+
+export const CROP_RATIOS = [
+  { name: "1:1", w: 1, h: 1 },
+  { name: "4:3", w: 4, h: 3 },
+  { name: "16:9", w: 16, h: 9 },
+  { name: "3:4", w: 3, h: 4 },
+  { name: "9:16", w: 9, h: 16 },
+];
+
+// centred crop to a width/height ratio, as fractions of a width × height image
+export const centerCropRect = (width: number, height: number, ratio: number): NormalizedRect => {
+  const imgRatio = width / height;
+  const w = imgRatio > ratio ? ratio / imgRatio : 1;
+  const h = imgRatio > ratio ? 1 : imgRatio / ratio;
+  return { x: (1 - w) / 2, y: (1 - h) / 2, w, h };
+};
+
+// photos are decoded upright from their EXIF orientation, the same way in every browser.
+// Uncached: decodeBlob below keeps the bitmap for as long as the blob lives.
+export const decodeUpright = async (blob: Blob) => {
+  const { blob: stored, orientation } = await neutralizeOrientation(blob);
+  const bitmap = await createImageBitmap(stored);
+  if (orientation === 1) return bitmap;
+  const upright = orientImage(bitmap, orientation);
+  bitmap.close();
+  return createImageBitmap(upright);
+};
+
+// decoded blobs are reused across preview renders
+const bitmapCache = new WeakMap<Blob, Promise<ImageBitmap>>();
+export const decodeBlob = (blob: Blob) => {
+  let bitmap = bitmapCache.get(blob);
+  if (!bitmap) {
+    bitmap = decodeUpright(blob);
+    bitmapCache.set(blob, bitmap);
+  }
+  return bitmap;
+};
+
+// Free a cached bitmap now instead of whenever its blob is collected, for blobs nothing
+// will render again.
+export const releaseBitmap = (blob: Blob) => {
+  const bitmap = bitmapCache.get(blob);
+  bitmapCache.delete(blob);
+  bitmap?.then((b) => b.close(), () => {});
+};
+
+// steps that move pixels around
+const GEOMETRY_OPS: EditOperation["type"][] = ["crop", "rotate", "straighten", "flip", "perspective", "resize", "upscale"];
+
+/**
+ * Index of the step of this type that can still be edited in place: the last one, unless a
+ * later step moves pixels around (it would no longer line up on screen). -1 if none.
+ */
+const editableIndex = (ops: EditOperation[], type: EditOperation["type"]) => {
+  for (let i = ops.length - 1; i >= 0; i--) {
+    if (ops[i].type === type) return i;
+    if (GEOMETRY_OPS.includes(ops[i].type)) return -1;
+  }
+  return -1;
+};
+
+export const editableLayersIndex = (ops: EditOperation[]) => editableIndex(ops, "layers");
+export const editableCutoutIndex = (ops: EditOperation[]) => editableIndex(ops, "cutout");
+
+// Output steps with the automatic watermark added, unless the edit already carries that template
+export const withWatermark = (ops: EditOperation[], template: WatermarkTemplate | null): EditOperation[] =>
+  !template || ops.some((op) => op.type === "watermark" && op.template.id === template.id) ? ops : [...ops, { type: "watermark", template }];
+
+// pixel size after all operations, without rendering anything
+export const measureOperations = (width: number, height: number, ops: EditOperation[]) => {
+  let w = width;
+  let h = height;
+  for (const op of ops) {
+    if (op.type === "crop") {
+      w = Math.max(1, Math.round(op.rect.w * w));
+      h = Math.max(1, Math.round(op.rect.h * h));
+    } else if (op.type === "rotate" && op.degrees !== 180) {
+      [w, h] = [h, w];
+    } else if (op.type === "perspective") {
+      ({ width: w, height: h } = perspectiveOutputSize(w, h, op.quad, op.paper));
+    } else if (op.type === "straighten") {
+      const inner = largestInscribedRect(w, h, op.angle);
+      w = Math.max(1, Math.floor(inner.width));
+      h = Math.max(1, Math.floor(inner.height));
+    } else if (op.type === "resize") {
+      w = op.width;
+      h = op.height;
+    } else if (op.type === "upscale") {
+      w = Math.max(1, Math.round(w * op.factor));
+      h = Math.max(1, Math.round(h * op.factor));
+    }
+  }
+  return { width: w, height: h };
+};
+
+const applyOperation = async (input: DrawingCanvas, op: EditOperation, scale: number) => {
+  const { width: w, height: h } = input;
+  switch (op.type) {
+    case "crop": {
+      const sx = Math.round(op.rect.x * w);
+      const sy = Math.round(op.rect.y * h);
+      const sw = Math.max(1, Math.round(op.rect.w * w));
+      const sh = Math.max(1, Math.round(op.rect.h * h));
+      const { canvas, ctx } = createCanvas(sw, sh);
+      ctx.drawImage(input, sx, sy, sw, sh, 0, 0, sw, sh);
+      return canvas;
+    }
+    case "rotate": {
+      const swap = op.degrees !== 180;
+      const { canvas, ctx } = createCanvas(swap ? h : w, swap ? w : h);
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      ctx.rotate((op.degrees * Math.PI) / 180);
+      ctx.drawImage(input, -w / 2, -h / 2);
+      return canvas;
+    }
+    case "perspective": {
+      const size = perspectiveOutputSize(w, h, op.quad, op.paper);
+      return warpPerspective(input, op.quad, size.width, size.height);
+    }
+    case "scan":
+      return applyScanMode(input, op.mode);
+    case "straighten": {
+      const inner = largestInscribedRect(w, h, op.angle);
+      const { canvas, ctx } = createCanvas(Math.max(1, Math.floor(inner.width)), Math.max(1, Math.floor(inner.height)));
+      ctx.imageSmoothingQuality = "high";
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      ctx.rotate((op.angle * Math.PI) / 180);
+      ctx.drawImage(input, -w / 2, -h / 2);
+      return canvas;
+    }
+    case "flip": {
+      const { canvas, ctx } = createCanvas(w, h);
+      if (op.axis === "horizontal") {
+        ctx.translate(w, 0);
+        ctx.scale(-1, 1);
+      } else {
+        ctx.translate(0, h);
+        ctx.scale(1, -1);
+      }
+      ctx.drawImage(input, 0, 0);
+      return canvas;
+    }
+    case "resize":
+      return resampleCanvas(input, Math.max(1, Math.round(op.width * scale)), Math.max(1, Math.round(op.height * scale)), op.quality);
+    case "upscale":
+      return upscaleCanvas(input, op.factor, op.sharpen, scale);
+    case "adjust": {
+      const { canvas, ctx } = createCanvas(w, h);
+      ctx.filter = `brightness(${op.brightness}%) contrast(${op.contrast}%) saturate(${op.saturation}%)`;
+      ctx.drawImage(input, 0, 0);
+      return canvas;
+    }
+    case "filter":
+      return applyFilter(input, op.filter, op.intensity, scale);
+    case "levels":
+      return applyTone(input, op.tone);
+    case "layers": {
+      const { canvas, ctx } = createCanvas(w, h);
+      ctx.drawImage(input, 0, 0);
+      for (const layer of op.layers) {
+        if (layer.visible) drawLayer(ctx, layer, await decodeBlob(layer.image), w, h);
+      }
+      return canvas;
+    }
+    case "watermark":
+      return renderWatermark(input, op.template, op.template.kind === "logo" && op.template.logo ? await decodeBlob(op.template.logo) : null);
+    case "text":
+      return renderTextBoxes(input, op.boxes);
+    case "markup":
+      return renderMarkup(input, op.shapes);
+    case "redact":
+      return applyRedaction(input, op.regions, op.style, op.color);
+    case "cutout": {
+      const { mask, background } = op.cutout;
+      return renderCutout(input, op.cutout, await decodeBlob(mask), background.kind === "image" ? await decodeBlob(background.image) : null);
+    }
+    case "compress":
+      return input;
+  }
+};
+
+/**
+ * Render the original through every operation. `scale` shrinks the source up front
+ * for previews; full-resolution output uses scale 1. `onStep` hears how many operations
+ * are done, and can throw to stop between them.
+ */
+export const renderOperations = async (original: Blob, ops: EditOperation[], scale = 1, onStep?: (done: number) => void) => {
+  const source = await decodeBlob(original);
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  let result = canvas;
+  for (let i = 0; i < ops.length; i++) {
+    onStep?.(i);
+    result = await applyOperation(result, ops[i], scale);
+  }
+  onStep?.(ops.length);
+  return result;
+};
+
+// Encode a full-resolution render using the last compress operation (JPEG 92 by default)
+export const encodeOperations = async (canvas: DrawingCanvas, ops: EditOperation[]): Promise<EncodedImage> => {
+  const settings = [...ops].reverse().find((op): op is Extract<EditOperation, { type: "compress" }> => op.type === "compress");
+  if (settings?.maxKB) {
+    const result = await compressToTargetSize(canvas, { maxKB: settings.maxKB, minKB: settings.minKB });
+    return { ...result, dataUrl: settings.dpi ? setJpegDpi(result.dataUrl, settings.dpi) : result.dataUrl };
+  }
+  const quality = settings?.quality ?? 92;
+  const { canvas: flat, ctx } = createCanvas(canvas.width, canvas.height);
+  ctx.fillStyle = "#fff"; // JPEG has no alpha
+  ctx.fillRect(0, 0, flat.width, flat.height);
+  ctx.drawImage(canvas, 0, 0);
+  const blob = await canvasToBlob(flat, "image/jpeg", quality / 100);
+  const dataUrl = await blobToDataUrl(blob);
+  return {
+    dataUrl: settings?.dpi ? setJpegDpi(dataUrl, settings.dpi) : dataUrl,
+    bytes: blob.size,
+    width: flat.width,
+    height: flat.height,
+    quality,
+    belowMin: false,
+  };
+};
+
+// ---------- Redaction check ----------
+// longest edge the check renders at; fine enough for text, quick on phones
+const VERIFY_MAX = 1200;
+// detail correlation above this means the content under a redaction is still readable
+const LEAK_LIMIT = 0.35;
+
+// steps drawn on top of the image or behind a cut-out, which may legitimately cover a redaction
+const COVERING_OPS: EditOperation["type"][] = ["text", "markup", "layers", "watermark", "cutout"];
+
+export interface RedactionCheck {
+  regions: number;
+  // 0 = no detail left under the redactions, 1 = untouched
+  leak: number;
+  passed: boolean;
+}
+
+/**
+ * Confirm that an exported image keeps none of the original detail under its redactions.
+ * The export is compared with the same edit rendered without redactions, over the area
+ * the redactions end up covering after any crops, rotations or resizes. `area` is the part
+ * of the edited image the export shows, when it holds less than all of it (a filled PDF page).
+ */
+export const verifyRedactions = async (original: Blob, ops: EditOperation[], exported: Blob, area?: NormalizedRect): Promise<RedactionCheck> => {
+  const regions = ops.reduce((n, op) => n + (op.type === "redact" ? op.regions.length : 0), 0);
+  const source = await decodeBlob(original);
+  const scale = Math.min(1, VERIFY_MAX / Math.max(source.width, source.height));
+  const unredacted = await renderOperations(
+    original,
+    ops.filter((op) => op.type !== "redact" && !COVERING_OPS.includes(op.type)),
+    scale
+  );
+  const part = area ?? { x: 0, y: 0, w: 1, h: 1 };
+  const w = Math.max(1, Math.round(unredacted.width * part.w));
+  const h = Math.max(1, Math.round(unredacted.height * part.h));
+
+  const blank = createCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  blank.ctx.fillStyle = "#000";
+  blank.ctx.fillRect(0, 0, blank.canvas.width, blank.canvas.height);
+  let mask = blank.canvas;
+  for (const op of ops) {
+    if (op.type === "redact") mask = applyRedaction(mask, op.regions, "fill", "#fff");
+    // replay the steps that move pixels around to follow the redacted areas
+    else if (GEOMETRY_OPS.includes(op.type)) mask = await applyOperation(mask, op, scale);
+  }
+
+  const sample = (image: CanvasImageSource & { width: number; height: number }, from = part) => {
+    const { ctx } = createCanvas(w, h);
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(image, from.x * image.width, from.y * image.height, from.w * image.width, from.h * image.height, 0, 0, w, h);
+    return ctx.getImageData(0, 0, w, h).data;
+  };
+  const coverage = sample(mask);
+  const covered = new Uint8Array(w * h);
+  for (let i = 0; i < covered.length; i++) covered[i] = coverage[i * 4] > 127 ? 255 : 0;
+
+  const output = await createImageBitmap(exported);
+  const leak = detailCorrelation(sample(unredacted), sample(output, { x: 0, y: 0, w: 1, h: 1 }), covered, w, h);
+  output.close();
+  return { regions, leak, passed: leak < LEAK_LIMIT };
+};
@@ -0,0 +1,88 @@
+import { createCanvas, loadImage } from "./image";
+import { dataUrlByteSize, dataUrlMimeType } from "./jpeg";
+
+export type BackgroundRequirement = "white" | "light" | "any";
+
+export interface DocumentPreset {
+  id: string;
+  name: string;
+  category: "Passport" | "Visa" | "Exam forms";
+  // physical size shown to the user, e.g. "35 × 45 mm"
+  size: string;
+  widthPx: number;
+  heightPx: number;
+  dpi: number;
+  background: BackgroundRequirement;
+  minKB?: number;
+  maxKB: number;
+  notes?: string;
+}
+
+// Common specs. Portals change these from time to time, so notes point users at the official notice.
+export const DOCUMENT_PRESETS: DocumentPreset[] = [
+  { id: "passport-35x45", name: "Passport photo", category: "Passport", size: "35 × 45 mm", widthPx: 413, heightPx: 531, dpi: 300, background: "white", maxKB: 250, notes: "India, UK, EU and most Schengen countries" },
+  { id: "passport-us", name: "US passport", category: "Passport", size: "2 × 2 in", widthPx: 600, heightPx: 600, dpi: 300, background: "white", maxKB: 240 },
+  { id: "visa-us", name: "US visa (DS-160)", category: "Visa", size: "2 × 2 in", widthPx: 600, heightPx: 600, dpi: 300, background: "white", maxKB: 240, notes: "Square, 600–1200 px, JPEG" },
+  { id: "visa-schengen", name: "Schengen visa", category: "Visa", size: "35 × 45 mm", widthPx: 413, heightPx: 531, dpi: 300, background: "light", maxKB: 500 },
+  { id: "exam-photo", name: "Exam photo (IBPS style)", category: "Exam forms", size: "200 × 230 px", widthPx: 200, heightPx: 230, dpi: 200, background: "light", minKB: 20, maxKB: 50, notes: "Check the recruitment notice for the exact window" },
+  { id: "exam-photo-upsc", name: "Exam photo (UPSC style)", category: "Exam forms", size: "350 × 350 px", widthPx: 350, heightPx: 350, dpi: 200, background: "white", minKB: 20, maxKB: 300 },
+  { id: "exam-signature", name: "Exam signature", category: "Exam forms", size: "140 × 60 px", widthPx: 140, heightPx: 60, dpi: 200, background: "white", minKB: 10, maxKB: 20, notes: "Black ink on white paper" },
+];
+
+export interface ComplianceIssue {
+  field: "dimensions" | "fileSize" | "format" | "background";
+  message: string;
+}
+
+// average colour of a thin border around the image, where the background shows
+const sampleBorder = async (src: string) => {
+  const img = await loadImage(src);
+  const size = 64;
+  const { ctx } = createCanvas(size, size);
+  ctx.drawImage(img, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const band = 4;
+  let r = 0, g = 0, b = 0, n = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      // the bottom edge is usually shoulders/clothes, so only sample top and sides
+      if (y >= band && x >= band && x < size - band) continue;
+      const i = (y * size + x) * 4;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      n++;
+    }
+  }
+  return { r: r / n, g: g / n, b: b / n };
+};
+
+/** Check an encoded image (data URL) against a preset and list every violation. */
+export const checkCompliance = async (preset: DocumentPreset, dataUrl: string, width: number, height: number) => {
+  const issues: ComplianceIssue[] = [];
+  if (width !== preset.widthPx || height !== preset.heightPx) {
+    issues.push({ field: "dimensions", message: `Size is ${width} × ${height} px, expected ${preset.widthPx} × ${preset.heightPx} px` });
+  }
+
+  const kb = dataUrlByteSize(dataUrl) / 1024;
+  if (kb > preset.maxKB) {
+    issues.push({ field: "fileSize", message: `File is ${kb.toFixed(1)} KB, limit is ${preset.maxKB} KB` });
+  } else if (preset.minKB && kb < preset.minKB) {
+    issues.push({ field: "fileSize", message: `File is ${kb.toFixed(1)} KB, minimum is ${preset.minKB} KB` });
+  }
+
+  if (dataUrlMimeType(dataUrl) !== "image/jpeg") {
+    issues.push({ field: "format", message: "Most portals only accept JPEG" });
+  }
+
+  if (preset.background !== "any") {
+    const { r, g, b } = await sampleBorder(dataUrl);
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    const spread = Math.max(r, g, b) - Math.min(r, g, b);
+    const minLuminance = preset.background === "white" ? 225 : 190;
+    if (luminance < minLuminance || spread > 30) {
+      issues.push({ field: "background", message: `Background should be ${preset.background === "white" ? "plain white" : "plain and light-coloured"}` });
+    }
+  }
+  return issues;
+};
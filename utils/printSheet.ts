@@ -0,0 +1,187 @@
+import { blobToDataUrl, canvasToBlob, createCanvas, DrawingCanvas, DrawingContext } from "./image";
+import { setJpegDpi } from "./jpeg";
+import { createPdf, PAPER_SIZES, PaperSize, PDF_MIME_TYPE } from "./pdf";
+import { DocumentPreset } from "./presets";
+
+// Copies of one photo tiled onto a print sheet at their physical size, for photo kiosks
+// and home printers.
+
+export const SHEET_SIZES: PaperSize[] = ["photo-4x6", "a4", "photo-5x7"];
+
+export interface PhotoSize {
+  name: string;
+  widthMM: number;
+  heightMM: number;
+}
+
+export const PHOTO_SIZES: PhotoSize[] = [
+  { name: "35 × 45 mm", widthMM: 35, heightMM: 45 },
+  { name: "2 × 2 in", widthMM: 50.8, heightMM: 50.8 },
+  { name: "33 × 48 mm", widthMM: 33, heightMM: 48 },
+  { name: "30 × 40 mm", widthMM: 30, heightMM: 40 },
+];
+
+export const SHEET_DPIS = [300, 600];
+
+export interface PrintSheetOptions {
+  sheet: PaperSize;
+  photoWidthMM: number;
+  photoHeightMM: number;
+  dpi: number;
+  // gap between copies
+  spacingMM: number;
+  cutGuides: boolean;
+  // printed under every copy when not empty
+  caption: string;
+  // 0 fits as many as the sheet holds
+  copies: number;
+}
+
+export const DEFAULT_PRINT_SHEET: PrintSheetOptions = {
+  sheet: "photo-4x6",
+  photoWidthMM: 35,
+  photoHeightMM: 45,
+  dpi: 300,
+  spacingMM: 2,
+  cutGuides: true,
+  caption: "",
+  copies: 0,
+};
+
+const SETTINGS_KEY = "easypix.printSheet";
+
+export const loadPrintSheetOptions = (): PrintSheetOptions => {
+  try {
+    return { ...DEFAULT_PRINT_SHEET, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") };
+  } catch {
+    return DEFAULT_PRINT_SHEET;
+  }
+};
+
+export const savePrintSheetOptions = (options: PrintSheetOptions) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(options));
+
+// printers can't reach the very edge of the paper
+const SHEET_MARGIN_MM = 3;
+const CAPTION_MM = 4;
+const CAPTION_TEXT_MM = 2.5;
+
+// physical size of a preset, e.g. "35 × 45 mm" or "2 × 2 in"; null for pixel-only specs
+export const presetPhotoSize = (preset: DocumentPreset): PhotoSize | null => {
+  const m = preset.size.match(/^([\d.]+) × ([\d.]+) (mm|in)$/);
+  if (!m) return null;
+  const unit = m[3] === "in" ? 25.4 : 1;
+  return { name: preset.size, widthMM: +m[1] * unit, heightMM: +m[2] * unit };
+};
+
+export interface SheetLayout {
+  // sheet size in pixels at the chosen DPI
+  width: number;
+  height: number;
+  // where each copy's photo goes, in pixels
+  cells: { x: number; y: number; w: number; h: number }[];
+  captionHeight: number;
+  columns: number;
+  rows: number;
+}
+
+/**
+ * Lay copies out in a centred grid, turning the sheet sideways when that fits more. Sizes
+ * are rounded to whole pixels only at the end so every copy prints at the same size.
+ */
+export const layoutSheet = (options: PrintSheetOptions): SheetLayout => {
+  const paper = PAPER_SIZES.find((p) => p.id === options.sheet) ?? PAPER_SIZES[0];
+  const mm = (pt: number) => (pt / 72) * 25.4;
+  const cellW = options.photoWidthMM;
+  const cellH = options.photoHeightMM + (options.caption.trim() ? CAPTION_MM : 0);
+  const s = options.spacingMM;
+
+  const fit = (w: number, h: number) => ({
+    w,
+    h,
+    columns: Math.max(0, Math.floor((w - 2 * SHEET_MARGIN_MM + s) / (cellW + s))),
+    rows: Math.max(0, Math.floor((h - 2 * SHEET_MARGIN_MM + s) / (cellH + s))),
+  });
+  const portrait = fit(mm(paper.width), mm(paper.height));
+  const landscape = fit(mm(paper.height), mm(paper.width));
+  const best = landscape.columns * landscape.rows > portrait.columns * portrait.rows ? landscape : portrait;
+
+  const px = (v: number) => Math.round((v / 25.4) * options.dpi);
+  const total = best.columns * best.rows;
+  const count = options.copies > 0 ? Math.min(options.copies, total) : total;
+  const gridW = best.columns * cellW + Math.max(0, best.columns - 1) * s;
+  const gridH = best.rows * cellH + Math.max(0, best.rows - 1) * s;
+  const left = (best.w - gridW) / 2;
+  const top = (best.h - gridH) / 2;
+
+  const cells: SheetLayout["cells"] = [];
+  for (let i = 0; i < count; i++) {
+    const col = i % best.columns;
+    const row = Math.floor(i / best.columns);
+    cells.push({ x: px(left + col * (cellW + s)), y: px(top + row * (cellH + s)), w: px(options.photoWidthMM), h: px(options.photoHeightMM) });
+  }
+  return { width: px(best.w), height: px(best.h), cells, captionHeight: cellH > options.photoHeightMM ? px(CAPTION_MM) : 0, columns: best.columns, rows: best.rows };
+};
+
+// shorten text with an ellipsis until it fits
+const fitText = (ctx: DrawingContext, text: string, width: number) => {
+  if (ctx.measureText(text).width <= width) return text;
+  let t = text;
+  while (t.length > 1 && ctx.measureText(`${t}…`).width > width) t = t.slice(0, -1);
+  return `${t}…`;
+};
+
+/**
+ * Draw the sheet. Each copy is cropped from the centre of the source to the photo's aspect;
+ * cut guides run the width of the sheet through every photo edge, drawn underneath the
+ * photos so they only show in the gaps.
+ */
+export const renderSheet = (source: CanvasImageSource & { width: number; height: number }, options: PrintSheetOptions) => {
+  const layout = layoutSheet(options);
+  const { canvas, ctx } = createCanvas(Math.max(1, layout.width), Math.max(1, layout.height));
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (options.cutGuides) {
+    ctx.fillStyle = "#b0b0b0";
+    const line = Math.max(1, Math.round(options.dpi / 300));
+    const xs = new Set(layout.cells.flatMap((c) => [c.x, c.x + c.w]));
+    const ys = new Set(layout.cells.flatMap((c) => [c.y, c.y + c.h]));
+    xs.forEach((x) => ctx.fillRect(x - line / 2, 0, line, canvas.height));
+    ys.forEach((y) => ctx.fillRect(0, y - line / 2, canvas.width, line));
+  }
+
+  ctx.imageSmoothingQuality = "high";
+  for (const cell of layout.cells) {
+    const t = Math.max(cell.w / source.width, cell.h / source.height);
+    const sw = cell.w / t;
+    const sh = cell.h / t;
+    ctx.drawImage(source, (source.width - sw) / 2, (source.height - sh) / 2, sw, sh, cell.x, cell.y, cell.w, cell.h);
+  }
+
+  const caption = options.caption.trim();
+  if (caption && layout.captionHeight) {
+    ctx.fillStyle = "#000";
+    ctx.font = `${Math.round((CAPTION_TEXT_MM / 25.4) * options.dpi)}px sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    for (const cell of layout.cells) {
+      ctx.fillText(fitText(ctx, caption, cell.w), cell.x + cell.w / 2, cell.y + cell.h + layout.captionHeight / 2);
+    }
+  }
+  return canvas;
+};
+
+export type SheetFormat = "jpeg" | "pdf";
+
+// Kiosks take a JPEG with the DPI in its header; the PDF page is the sheet's paper size
+export const encodeSheet = async (canvas: DrawingCanvas, options: PrintSheetOptions, format: SheetFormat) => {
+  const jpeg = await canvasToBlob(canvas, "image/jpeg", 0.95);
+  if (format === "jpeg") return { dataUrl: setJpegDpi(await blobToDataUrl(jpeg), options.dpi), mimeType: "image/jpeg" };
+  const pdf = createPdf([{ jpeg, width: canvas.width, height: canvas.height }], {
+    paper: options.sheet,
+    orientation: canvas.width > canvas.height ? "landscape" : "portrait",
+    marginMM: 0,
+    fit: "fit",
+  });
+  return { dataUrl: await blobToDataUrl(pdf), mimeType: PDF_MIME_TYPE };
+};
@@ -0,0 +1,167 @@
+import { createCanvas, DrawingCanvas } from "./image";
+import { NormalizedRect } from "./pipeline";
+
+// Irreversible redaction of sensitive regions (ID numbers, faces, addresses). Regions are
+// fractions of the image, brush radii fractions of its shorter side, so previews and
+// full-resolution exports cover the same area.
+
+export type RedactStyle = "pixelate" | "blur" | "fill";
+
+export type RedactRegion =
+  | { shape: "rect"; rect: NormalizedRect }
+  | { shape: "brush"; points: { x: number; y: number }[]; radius: number };
+
+export const REDACT_STYLES: { id: RedactStyle; name: string }[] = [
+  { id: "pixelate", name: "Pixelate" },
+  { id: "blur", name: "Blur" },
+  { id: "fill", name: "Black box" },
+];
+
+// pixelation blocks as a fraction of the shorter side; large enough that no digit or
+// letter of a scanned ID keeps a recognisable shape
+const BLOCK_SIZE = 0.03;
+
+const blockSize = (width: number, height: number) => Math.max(4, Math.round(Math.min(width, height) * BLOCK_SIZE));
+
+/**
+ * Coverage of the regions as one byte per pixel (0 or 255). There are no partial values:
+ * an anti-aliased edge would blend original pixels into the result.
+ */
+export const redactionMask = (width: number, height: number, regions: RedactRegion[]) => {
+  const { ctx } = createCanvas(width, height);
+  ctx.fillStyle = "#fff";
+  ctx.strokeStyle = "#fff";
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  const side = Math.min(width, height);
+  for (const region of regions) {
+    if (region.shape === "rect") {
+      const { x, y, w, h } = region.rect;
+      ctx.fillRect(x * width, y * height, w * width, h * height);
+    } else {
+      ctx.lineWidth = region.radius * side * 2;
+      ctx.beginPath();
+      region.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x * width, p.y * height) : ctx.lineTo(p.x * width, p.y * height)));
+      if (region.points.length === 1) ctx.lineTo(region.points[0].x * width + 0.01, region.points[0].y * height);
+      ctx.stroke();
+    }
+  }
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = data[i * 4 + 3] > 0 ? 255 : 0;
+  return mask;
+};
+
+// every pixel replaced by the mean of its block, so no source value is copied through
+const pixelate = (src: Uint8ClampedArray, width: number, height: number, block: number) => {
+  const out = new Uint8ClampedArray(src.length);
+  for (let by = 0; by < height; by += block) {
+    for (let bx = 0; bx < width; bx += block) {
+      const x1 = Math.min(width, bx + block);
+      const y1 = Math.min(height, by + block);
+      const sum = [0, 0, 0, 0];
+      for (let y = by; y < y1; y++) {
+        for (let x = bx; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += src[i + c];
+        }
+      }
+      const n = (x1 - bx) * (y1 - by);
+      for (let y = by; y < y1; y++) {
+        for (let x = bx; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          for (let c = 0; c < 4; c++) out[i + c] = sum[c] / n;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Replace the pixels under the regions. Blur is applied to a pixelated copy rather than
+ * the image itself: a plain blur can be partly undone, blurred block averages cannot.
+ */
+export const applyRedaction = (input: DrawingCanvas, regions: RedactRegion[], style: RedactStyle, color: string) => {
+  const { width: w, height: h } = input;
+  const { canvas, ctx } = createCanvas(w, h);
+  ctx.drawImage(input, 0, 0);
+  const image = ctx.getImageData(0, 0, w, h);
+  const d = image.data;
+  const mask = redactionMask(w, h, regions);
+  const block = blockSize(w, h);
+
+  let cover: Uint8ClampedArray;
+  if (style === "fill") {
+    const swatch = createCanvas(1, 1);
+    swatch.ctx.fillStyle = color;
+    swatch.ctx.fillRect(0, 0, 1, 1);
+    const rgb = swatch.ctx.getImageData(0, 0, 1, 1).data;
+    cover = new Uint8ClampedArray(d.length);
+    for (let i = 0; i < cover.length; i += 4) {
+      cover[i] = rgb[0];
+      cover[i + 1] = rgb[1];
+      cover[i + 2] = rgb[2];
+      cover[i + 3] = 255;
+    }
+  } else if (style === "pixelate") {
+    cover = pixelate(d, w, h, block);
+  } else {
+    const blocks = createCanvas(w, h);
+    blocks.ctx.putImageData(new ImageData(pixelate(d, w, h, Math.max(2, Math.round(block / 2))), w, h), 0, 0);
+    const blurred = createCanvas(w, h);
+    // the sharp copy underneath keeps the edges from fading to transparent
+    blurred.ctx.drawImage(blocks.canvas, 0, 0);
+    blurred.ctx.filter = `blur(${block}px)`;
+    blurred.ctx.drawImage(blocks.canvas, 0, 0);
+    cover = blurred.ctx.getImageData(0, 0, w, h).data;
+  }
+
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const o = i * 4;
+    d[o] = cover[o];
+    d[o + 1] = cover[o + 1];
+    d[o + 2] = cover[o + 2];
+    d[o + 3] = 255; // an alpha channel could otherwise reveal the outline of what was there
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+const luma = (d: Uint8ClampedArray, i: number) => 0.299 * d[i * 4] + 0.587 * d[i * 4 + 1] + 0.114 * d[i * 4 + 2];
+
+// brightness minus the mean of its 3×3 neighbourhood: the fine detail that makes text readable
+const detail = (d: Uint8ClampedArray, width: number, x: number, y: number) => {
+  let sum = 0;
+  for (let dy = -1; dy <= 1; dy++) for (let dx = -1; dx <= 1; dx++) sum += luma(d, (y + dy) * width + x + dx);
+  return luma(d, y * width + x) - sum / 9;
+};
+
+/**
+ * How much of the source's fine detail is still present in the output inside the mask,
+ * as a correlation from 0 (none) to 1 (untouched). Images are the same size; JPEG noise
+ * in the output only lowers the score slightly, while redacted areas score near 0.
+ * Returns 0 when the masked area has no detail to leak.
+ */
+export const detailCorrelation = (source: Uint8ClampedArray, output: Uint8ClampedArray, mask: Uint8Array, width: number, height: number) => {
+  let sx = 0;
+  let sy = 0;
+  let sxy = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      // only pixels whose whole neighbourhood is redacted, so the unredacted border doesn't count
+      let inside = true;
+      for (let dy = -1; dy <= 1 && inside; dy++) for (let dx = -1; dx <= 1 && inside; dx++) inside = mask[(y + dy) * width + x + dx] > 0;
+      if (!inside) continue;
+      const a = detail(source, width, x, y);
+      const b = detail(output, width, x, y);
+      sx += a * a;
+      sy += b * b;
+      sxy += a * b;
+    }
+  }
+  // fewer than ~a hundred pixels' worth of visible detail can't hold anything readable
+  if (sx < 100 * 16 * 16 || sy === 0) return 0;
+  return Math.max(0, sxy / Math.sqrt(sx * sy));
+};
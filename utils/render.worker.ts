@@ -0,0 +1,50 @@
+import { releaseBitmap } from "./pipeline";
+import { BlobRef, cancelledError, isCancelled, runRenderJob, swapBlobs, WorkerReply, WorkerRequest } from "./renderJob";
+
+// Render worker: runs the jobs posted by utils/jobs.ts one at a time, off the main thread.
+
+// jobs the page has given up on; they stop at their next step
+const cancelled = new Set<number>();
+
+// blobs sent by the page, by id; the same Blob object every time, so decoded bitmaps are
+// cached across jobs until the page releases them
+const blobs = new Map<string, Blob>();
+
+const release = (id: string) => {
+  const blob = blobs.get(id);
+  if (!blob) return;
+  blobs.delete(id);
+  releaseBitmap(blob);
+};
+
+const reply = (message: WorkerReply, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+  if (message.type === "cancel") {
+    cancelled.add(message.id);
+    return;
+  }
+  if (message.type === "blob") {
+    release(message.id);
+    blobs.set(message.id, message.blob);
+    return;
+  }
+  if (message.type === "release") {
+    release(message.id);
+    return;
+  }
+  const { id } = message;
+  const job = swapBlobs(message.job, (ref) => blobs.get((ref as BlobRef).blobId)!);
+  try {
+    const result = await runRenderJob(job, (done, total) => {
+      if (cancelled.has(id)) throw cancelledError();
+      reply({ type: "progress", id, progress: done / total });
+    });
+    reply({ type: "done", id, result }, result instanceof ImageBitmap ? [result] : []);
+  } catch (err) {
+    reply({ type: "failed", id, error: err instanceof Error ? err.message : String(err), cancelled: isCancelled(err) });
+  } finally {
+    cancelled.delete(id);
+  }
+};
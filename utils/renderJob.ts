@@ -0,0 +1,115 @@
+import { blobToDataUrl, canvasToBlob, DrawingCanvas } from "./image";
+import { encodeExport, ExportedImage, ExportSettings } from "./export";
+import { decodeBlob, EditOperation, EncodedImage, encodeOperations, NormalizedRect, RedactionCheck, renderOperations, verifyRedactions } from "./pipeline";
+import { BatchRecipe, recipeOperations } from "./batchRecipe";
+import { maskFromCutout } from "./cutout";
+import { removeBackground } from "./removeBackground";
+
+// Heavy pixel work described as plain data, so it can be posted to the render worker or
+// run in place where workers can't draw. Every job starts from the original and its
+// operations; the worker gets each blob once and jobs refer to it by id (see BlobRef).
+
+export type RenderJob =
+  // a PNG at `scale`, for the on-screen preview
+  | { type: "preview"; original: Blob; ops: EditOperation[]; scale: number }
+  // the full-resolution pixels
+  | { type: "render"; original: Blob; ops: EditOperation[] }
+  // encoded with the last compress step, for saving
+  | { type: "encode"; original: Blob; ops: EditOperation[] }
+  // encoded with the export dialog's settings
+  | { type: "export"; original: Blob; ops: EditOperation[]; settings: ExportSettings }
+  | { type: "verify"; original: Blob; ops: EditOperation[]; exported: Blob; area?: NormalizedRect }
+  // a batch recipe's steps for this image, encoded like "encode"
+  | { type: "batch"; original: Blob; recipe: BatchRecipe }
+  // the subject mask from background removal, as a PNG
+  | { type: "removeBackground"; original: Blob; ops: EditOperation[] };
+
+interface RenderJobResults {
+  preview: Blob;
+  render: ImageBitmap;
+  encode: EncodedImage;
+  export: ExportedImage;
+  verify: RedactionCheck;
+  batch: { operations: EditOperation[]; encoded: EncodedImage };
+  removeBackground: Blob;
+}
+
+export type JobResult<J extends RenderJob> = RenderJobResults[J["type"]];
+
+// Stands in for a blob the worker already holds. Posting a blob hands the worker a new
+// Blob object each time, which would miss its bitmap cache, so each one is sent once under
+// an id and jobs refer to that.
+export interface BlobRef {
+  blobId: string;
+}
+
+// messages between the page and the render worker; a job's blobs are sent as "blob" before
+// it runs, and released once a job no longer uses them
+export type WorkerRequest =
+  | { type: "run"; id: number; job: RenderJob }
+  | { type: "cancel"; id: number }
+  | { type: "blob"; id: string; blob: Blob }
+  | { type: "release"; id: string };
+export type WorkerReply =
+  | { type: "progress"; id: number; progress: number }
+  | { type: "done"; id: number; result: JobResult<RenderJob> }
+  | { type: "failed"; id: number; error: string; cancelled: boolean };
+
+const isBlobRef = (value: object): value is BlobRef => typeof (value as BlobRef).blobId === "string" && Object.keys(value).length === 1;
+
+/** Copy of a job with every Blob (or BlobRef) in it, however deep, replaced by `swap`. */
+export const swapBlobs = <T>(value: T, swap: (blob: Blob | BlobRef) => Blob | BlobRef): T => {
+  if (value instanceof Blob) return swap(value) as T;
+  if (Array.isArray(value)) return value.map((item) => swapBlobs(item, swap)) as T;
+  // only plain data is walked; anything else goes through as it is
+  if (value === null || typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype) return value;
+  if (isBlobRef(value)) return swap(value) as T;
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) copy[key] = swapBlobs(item, swap);
+  return copy as T;
+};
+
+export const cancelledError = () => new DOMException("Cancelled", "AbortError");
+export const isCancelled = (err: unknown) => err instanceof DOMException && err.name === "AbortError";
+
+// The model reports no progress and can't stop part way. A cancelled removal in the worker
+// is stopped by ending the worker (see utils/jobs.ts); on the page it runs to the end.
+const subjectMask = async (canvas: DrawingCanvas) => {
+  const result = await removeBackground(await blobToDataUrl(await canvasToBlob(canvas, "image/png")));
+  const cut = await createImageBitmap(await (await fetch(result)).blob());
+  const mask = maskFromCutout(cut);
+  cut.close();
+  return canvasToBlob(mask, "image/png");
+};
+
+/**
+ * Run a job. `onStep` is called as each operation finishes, with one more step at the end
+ * for encoding; throwing from it stops the job between steps.
+ */
+export const runRenderJob = async (job: RenderJob, onStep: (done: number, total: number) => void): Promise<JobResult<RenderJob>> => {
+  let ops: EditOperation[];
+  if (job.type === "batch") {
+    // a batch's crop depends on the image size, so its steps are worked out here
+    const { width, height } = await decodeBlob(job.original);
+    ops = recipeOperations(job.recipe, width, height);
+  } else ops = job.ops;
+  const total = ops.length + 1;
+  const step = (done: number) => onStep(done, total);
+  if (job.type === "verify") {
+    step(0);
+    const check = await verifyRedactions(job.original, ops, job.exported, job.area);
+    step(total);
+    return check;
+  }
+
+  const canvas = await renderOperations(job.original, ops, job.type === "preview" ? job.scale : 1, step);
+  let result: JobResult<RenderJob>;
+  if (job.type === "preview") result = await canvasToBlob(canvas, "image/png");
+  else if (job.type === "render") result = await createImageBitmap(canvas);
+  else if (job.type === "encode") result = await encodeOperations(canvas, ops);
+  else if (job.type === "removeBackground") result = await subjectMask(canvas);
+  else if (job.type === "batch") result = { operations: ops, encoded: await encodeOperations(canvas, ops) };
+  else result = await encodeExport(canvas, ops, job.settings);
+  step(total);
+  return result;
+};
@@ -0,0 +1,45 @@
+import { createCanvas, DrawingCanvas } from "./image";
+
+export type SizeUnit = "px" | "mm" | "in";
+export type ResampleQuality = "low" | "medium" | "high";
+
+const MM_PER_INCH = 25.4;
+
+// convert a length in the given unit to pixels at the given DPI
+export const toPixels = (value: number, unit: SizeUnit, dpi: number) => {
+  if (unit === "px") return Math.round(value);
+  const inches = unit === "mm" ? value / MM_PER_INCH : value;
+  return Math.round(inches * dpi);
+};
+
+// convert pixels back to the given unit at the given DPI (used to prefill inputs)
+export const fromPixels = (px: number, unit: SizeUnit, dpi: number) => {
+  if (unit === "px") return px;
+  const inches = px / dpi;
+  return unit === "mm" ? inches * MM_PER_INCH : inches;
+};
+
+/**
+ * Resample a canvas to exactly `width` x `height` pixels.
+ * "high" halves the image in steps before the final draw so large downscales
+ * don't alias; "low" is a single nearest-ish draw for speed.
+ */
+export const resampleCanvas = (input: DrawingCanvas, width: number, height: number, quality: ResampleQuality = "high") => {
+  let source = input;
+
+  if (quality === "high") {
+    while (source.width / 2 >= width && source.height / 2 >= height) {
+      const step = createCanvas(Math.round(source.width / 2), Math.round(source.height / 2));
+      step.ctx.imageSmoothingEnabled = true;
+      step.ctx.imageSmoothingQuality = "high";
+      step.ctx.drawImage(source, 0, 0, step.canvas.width, step.canvas.height);
+      source = step.canvas;
+    }
+  }
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingEnabled = quality !== "low";
+  ctx.imageSmoothingQuality = quality;
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
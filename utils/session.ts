@@ -0,0 +1,33 @@
+import { requestToPromise, SESSION_STORE, withStore } from "./db";
+import { ImageLayer } from "./layers";
+import { ToneSettings } from "./levels";
+import { EditOperation } from "./pipeline";
+
+// only one in-progress edit is kept
+const SESSION_KEY = "current";
+
+// Snapshot of an open editor, enough to rebuild it after a reload or a killed WebView
+export interface EditorSession {
+  original: Blob;
+  history: { label: string; operations: EditOperation[] }[];
+  cursor: number;
+  settings: {
+    brightness: number;
+    contrast: number;
+    saturation: number;
+    compressionQuality: number;
+    // levels & curves not yet applied; missing from sessions saved before they were kept
+    tone?: ToneSettings;
+  };
+  // layer stack open in the Layers tool, not yet applied
+  layers: ImageLayer[] | null;
+  updatedAt: number;
+}
+
+export const saveSession = (session: EditorSession) =>
+  withStore(SESSION_STORE, "readwrite", (store) => requestToPromise(store.put(session, SESSION_KEY)));
+
+export const loadSession = () =>
+  withStore(SESSION_STORE, "readonly", (store) => requestToPromise(store.get(SESSION_KEY) as IDBRequest<EditorSession | undefined>));
+
+export const clearSession = () => withStore(SESSION_STORE, "readwrite", (store) => requestToPromise(store.delete(SESSION_KEY)));
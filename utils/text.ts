@@ -0,0 +1,114 @@
+import { createCanvas, DrawingCanvas, DrawingContext } from "./image";
+
+// Text boxes drawn into the image. Positions are fractions of the image and sizes are
+// fractions of its height, so a box lands in the same place at preview and full size.
+
+export type FontId = "sans" | "serif" | "mono" | "condensed" | "handwriting";
+export type TextAlign = "left" | "center" | "right";
+
+export const FONTS: { id: FontId; name: string; family: string }[] = [
+  { id: "sans", name: "Sans", family: "Arial, Helvetica, sans-serif" },
+  { id: "serif", name: "Serif", family: "Georgia, 'Times New Roman', serif" },
+  { id: "mono", name: "Mono", family: "'Courier New', Courier, monospace" },
+  { id: "condensed", name: "Condensed", family: "'Arial Narrow', 'Roboto Condensed', sans-serif-condensed, sans-serif" },
+  { id: "handwriting", name: "Handwriting", family: "'Comic Sans MS', 'Segoe Print', cursive" },
+];
+
+export interface TextBox {
+  id: string;
+  text: string;
+  // centre of the box
+  x: number;
+  y: number;
+  // font size as a fraction of the image height
+  size: number;
+  rotation: number;
+  font: FontId;
+  bold: boolean;
+  color: string;
+  align: TextAlign;
+  outline: { color: string; width: number } | null; // width as a fraction of the font size
+  shadow: boolean;
+  background: string | null; // pill behind the text
+}
+
+const LINE_HEIGHT = 1.2;
+
+export const createTextBox = (patch: Partial<TextBox> = {}): TextBox => ({
+  id: Math.random().toString(36).slice(2),
+  text: "Text",
+  x: 0.5,
+  y: 0.5,
+  size: 0.06,
+  rotation: 0,
+  font: "sans",
+  bold: true,
+  color: "#ffffff",
+  align: "center",
+  outline: { color: "#000000", width: 0.08 },
+  shadow: false,
+  background: null,
+  ...patch,
+});
+
+const fontString = (box: TextBox, px: number) => `${box.bold ? "bold " : ""}${px}px ${FONTS.find((f) => f.id === box.font)?.family ?? "sans-serif"}`;
+
+let measureCtx: DrawingContext | null = null;
+
+// box size in pixels on an image of the given height, padding included
+export const measureTextBox = (box: TextBox, imageHeight: number) => {
+  if (!measureCtx) measureCtx = createCanvas(1, 1).ctx;
+  const px = box.size * imageHeight;
+  measureCtx.font = fontString(box, px);
+  const lines = box.text.split("\n");
+  const textWidth = Math.max(...lines.map((line) => measureCtx!.measureText(line).width), px * 0.5);
+  const pad = box.background ? px * 0.35 : px * 0.1;
+  return { width: textWidth + pad * 2, height: lines.length * px * LINE_HEIGHT + pad * 2, lines, px, pad };
+};
+
+// draw one box onto a width × height image area at the context's current origin
+export const drawTextBox = (ctx: DrawingContext, box: TextBox, width: number, height: number) => {
+  const { width: bw, height: bh, lines, px, pad } = measureTextBox(box, height);
+  ctx.save();
+  ctx.translate(box.x * width, box.y * height);
+  ctx.rotate((box.rotation * Math.PI) / 180);
+
+  if (box.background) {
+    ctx.fillStyle = box.background;
+    ctx.beginPath();
+    ctx.roundRect(-bw / 2, -bh / 2, bw, bh, Math.min(bh / 2, px * 0.6));
+    ctx.fill();
+  }
+
+  ctx.font = fontString(box, px);
+  ctx.textAlign = box.align;
+  ctx.textBaseline = "middle";
+  const anchor = box.align === "left" ? -bw / 2 + pad : box.align === "right" ? bw / 2 - pad : 0;
+  const top = -bh / 2 + pad + (px * LINE_HEIGHT) / 2;
+
+  ctx.shadowBlur = px * 0.15;
+  ctx.shadowOffsetX = px * 0.05;
+  ctx.shadowOffsetY = px * 0.05;
+  ctx.fillStyle = box.color;
+  lines.forEach((line, i) => {
+    const y = top + i * px * LINE_HEIGHT;
+    ctx.shadowColor = box.shadow ? "rgba(0,0,0,0.6)" : "transparent";
+    if (box.outline && box.outline.width > 0) {
+      ctx.strokeStyle = box.outline.color;
+      ctx.lineWidth = box.outline.width * px * 2; // half the stroke is covered by the fill
+      ctx.lineJoin = "round";
+      ctx.strokeText(line, anchor, y);
+      // the outline already casts the shadow
+      ctx.shadowColor = "transparent";
+    }
+    ctx.fillText(line, anchor, y);
+  });
+  ctx.restore();
+};
+
+export const renderTextBoxes = (input: DrawingCanvas, boxes: TextBox[]) => {
+  const { canvas, ctx } = createCanvas(input.width, input.height);
+  ctx.drawImage(input, 0, 0);
+  for (const box of boxes) drawTextBox(ctx, box, canvas.width, canvas.height);
+  return canvas;
+};
@@ -0,0 +1,185 @@
+import { createCanvas, DrawingCanvas, getContext2d } from "./image";
+import { boxBlur } from "./filters";
+
+// Enlarging low-resolution photos and scans: Lanczos resampling keeps edges crisper than
+// the browser's bilinear scaling, then sharpening that only acts on real edges brings
+// back detail without amplifying noise and JPEG blocks in flat areas.
+
+export const UPSCALE_FACTORS = [2, 4] as const;
+export type UpscaleFactor = (typeof UPSCALE_FACTORS)[number];
+
+// Largest output: the biggest canvas iOS Safari will create.
+const MAX_UPSCALE_PIXELS = 4096 * 4096;
+
+// Bytes allocated per output pixel, counted by instrumenting upscaleCanvas: the input
+// pixels (4 / factor²), the Float32 horizontal pass (16 / factor), the output pixels (4),
+// the blurred copy and its scratch buffer in sharpenEdges (8), the luma plane and min/max
+// passes (5) and the output canvas (4). That is 30 at 2× and 25 at 4×. Garbage can't be
+// relied on to go before the next allocation, and the next step needs its own canvas (4).
+const UPSCALE_BYTES_PER_PIXEL = 34;
+
+// Share of the device's memory one upscale may use, and the device memory assumed where
+// the browser doesn't report it (Safari, Firefox).
+const MEMORY_SHARE = 1 / 8;
+const ASSUMED_MEMORY_GB = 4;
+
+export const maxUpscalePixels = () => {
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? ASSUMED_MEMORY_GB;
+  const budget = memory * 1024 ** 3 * MEMORY_SHARE;
+  return Math.min(MAX_UPSCALE_PIXELS, Math.floor(budget / UPSCALE_BYTES_PER_PIXEL));
+};
+
+export const canUpscale = (width: number, height: number, factor: number) => width * factor * height * factor <= maxUpscalePixels();
+
+const LOBES = 3;
+const lanczos = (x: number) => {
+  if (x === 0) return 1;
+  if (x <= -LOBES || x >= LOBES) return 0;
+  const px = Math.PI * x;
+  return (LOBES * Math.sin(px) * Math.sin(px / LOBES)) / (px * px);
+};
+
+// source pixels and normalised weights for every output position along one axis; only
+// right for enlarging, where the kernel doesn't need widening
+const kernel = (inSize: number, outSize: number) => {
+  const taps = LOBES * 2;
+  const index = new Int32Array(outSize * taps);
+  const weight = new Float32Array(outSize * taps);
+  for (let o = 0; o < outSize; o++) {
+    const center = ((o + 0.5) * inSize) / outSize - 0.5;
+    const first = Math.floor(center) - LOBES + 1;
+    let sum = 0;
+    for (let t = 0; t < taps; t++) {
+      index[o * taps + t] = Math.min(inSize - 1, Math.max(0, first + t));
+      weight[o * taps + t] = lanczos(center - (first + t));
+      sum += weight[o * taps + t];
+    }
+    for (let t = 0; t < taps; t++) weight[o * taps + t] /= sum;
+  }
+  return { index, weight, taps };
+};
+
+/**
+ * Lanczos-3 enlargement of RGBA pixels, one axis at a time. Colours are weighted by alpha
+ * so transparent pixels (around a cut-out, say) don't bleed dark fringes into the edges.
+ */
+export const lanczosUpscale = (src: Uint8ClampedArray, w: number, h: number, outW: number, outH: number) => {
+  const kx = kernel(w, outW);
+  const mid = new Float32Array(outW * h * 4);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < outW; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let t = 0; t < kx.taps; t++) {
+        const i = (y * w + kx.index[x * kx.taps + t]) * 4;
+        const wa = (kx.weight[x * kx.taps + t] * src[i + 3]) / 255;
+        r += src[i] * wa;
+        g += src[i + 1] * wa;
+        b += src[i + 2] * wa;
+        a += src[i + 3] * kx.weight[x * kx.taps + t];
+      }
+      const o = (y * outW + x) * 4;
+      mid[o] = r;
+      mid[o + 1] = g;
+      mid[o + 2] = b;
+      mid[o + 3] = a;
+    }
+  }
+
+  const ky = kernel(h, outH);
+  const out = new Uint8ClampedArray(outW * outH * 4);
+  const row = new Float32Array(outW * 4);
+  for (let y = 0; y < outH; y++) {
+    row.fill(0);
+    for (let t = 0; t < ky.taps; t++) {
+      const wt = ky.weight[y * ky.taps + t];
+      const from = ky.index[y * ky.taps + t] * outW * 4;
+      for (let i = 0; i < row.length; i++) row[i] += mid[from + i] * wt;
+    }
+    const base = y * outW * 4;
+    for (let i = 0; i < row.length; i += 4) {
+      const a = row[i + 3];
+      if (a <= 0) continue;
+      // back from alpha-weighted colour; the negative lobes can overshoot, which clamping trims
+      out[base + i] = (row[i] * 255) / a;
+      out[base + i + 1] = (row[i + 1] * 255) / a;
+      out[base + i + 2] = (row[i + 2] * 255) / a;
+      out[base + i + 3] = a;
+    }
+  }
+  return out;
+};
+
+// local detail below this (in luma levels) is noise and left alone; above the second it is
+// an edge and gets the full amount
+const NOISE_FLOOR = 2;
+const FULL_EDGE = 12;
+
+const luma = (d: Uint8ClampedArray, i: number) => 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+
+// darkest and brightest luma within `r` pixels, as separable min/max passes
+const lumaRange = (y: Uint8ClampedArray, w: number, h: number, r: number) => {
+  const pass = (src: Uint8ClampedArray, pick: (a: number, b: number) => number, horizontal: boolean) => {
+    const out = new Uint8ClampedArray(src.length);
+    for (let py = 0; py < h; py++) {
+      for (let px = 0; px < w; px++) {
+        let v = src[py * w + px];
+        for (let k = -r; k <= r; k++) {
+          const qx = horizontal ? Math.min(w - 1, Math.max(0, px + k)) : px;
+          const qy = horizontal ? py : Math.min(h - 1, Math.max(0, py + k));
+          v = pick(v, src[qy * w + qx]);
+        }
+        out[py * w + px] = v;
+      }
+    }
+    return out;
+  };
+  return { min: pass(pass(y, Math.min, true), Math.min, false), max: pass(pass(y, Math.max, true), Math.max, false) };
+};
+
+/**
+ * Edge-aware unsharp mask, in place. Only brightness is sharpened, so edges don't pick up
+ * colour fringes; flat areas are skipped; and each pixel stays within the brightness range
+ * of its neighbourhood, so edges get steeper without the light and dark halos of a plain
+ * unsharp mask.
+ */
+export const sharpenEdges = (d: Uint8ClampedArray, w: number, h: number, amount: number, radius: number) => {
+  const r = Math.max(1, Math.round(radius));
+  const blurred = boxBlur(d, w, h, r);
+  const y = new Uint8ClampedArray(w * h);
+  for (let p = 0; p < y.length; p++) y[p] = luma(d, p * 4);
+  const { min, max } = lumaRange(y, w, h, r);
+
+  for (let p = 0; p < y.length; p++) {
+    const i = p * 4;
+    const detail = y[p] - luma(blurred, i);
+    const edge = Math.min(1, Math.max(0, (Math.abs(detail) - NOISE_FLOOR) / (FULL_EDGE - NOISE_FLOOR)));
+    if (edge === 0) continue;
+    const target = Math.min(max[p], Math.max(min[p], y[p] + detail * amount * edge));
+    const delta = target - y[p];
+    d[i] += delta;
+    d[i + 1] += delta;
+    d[i + 2] += delta;
+  }
+};
+
+/**
+ * Enlarge a canvas by `factor` with Lanczos resampling and edge-aware sharpening at
+ * `sharpen` (0-100). `scale` is the preview scale, so the sharpening radius covers the
+ * same share of the picture at any resolution.
+ */
+export const upscaleCanvas = (input: DrawingCanvas, factor: number, sharpen: number, scale = 1) => {
+  const { width: w, height: h } = input;
+  const outW = Math.max(1, Math.round(w * factor));
+  const outH = Math.max(1, Math.round(h * factor));
+  const src = getContext2d(input).getImageData(0, 0, w, h).data;
+  const out = lanczosUpscale(src, w, h, outW, outH);
+  const t = Math.max(0, Math.min(100, sharpen)) / 100;
+  // resampled edges spread over about half the factor in pixels
+  if (t > 0) sharpenEdges(out, outW, outH, 1.5 * t, (factor / 2) * scale);
+  const { canvas, ctx } = createCanvas(outW, outH);
+  ctx.putImageData(new ImageData(out, outW, outH), 0, 0);
+  return canvas;
+};
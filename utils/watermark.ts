@@ -0,0 +1,130 @@
+import { createCanvas, DrawingCanvas, DrawingContext } from "./image";
+
+// Text or logo stamps, drawn at a fixed anchor or repeated diagonally over the whole image.
+// Sizes are fractions of the image's shorter side so a template looks the same on any photo.
+
+export type WatermarkAnchor = "top-left" | "top" | "top-right" | "left" | "center" | "right" | "bottom-left" | "bottom" | "bottom-right";
+
+export interface WatermarkTemplate {
+  id: string;
+  name: string;
+  kind: "text" | "logo";
+  text: string;
+  color: string;
+  bold: boolean;
+  logo: Blob | null;
+  // height of the text or logo
+  size: number;
+  anchor: WatermarkAnchor;
+  // distance from the anchored edges
+  margin: number;
+  opacity: number;
+  // degrees clockwise; tiles use it for the diagonal
+  rotation: number;
+  // repeat over the whole image instead of one mark at the anchor
+  tiled: boolean;
+  // gap between tiles as a multiple of the mark height
+  spacing: number;
+}
+
+// rows top to bottom, for the anchor picker
+export const WATERMARK_ANCHORS: WatermarkAnchor[] = ["top-left", "top", "top-right", "left", "center", "right", "bottom-left", "bottom", "bottom-right"];
+
+// where the mark sits between the margins: 0 left/top, 1 right/bottom
+const ANCHOR_POSITIONS: Record<WatermarkAnchor, [number, number]> = {
+  "top-left": [0, 0],
+  top: [0.5, 0],
+  "top-right": [1, 0],
+  left: [0, 0.5],
+  center: [0.5, 0.5],
+  right: [1, 0.5],
+  "bottom-left": [0, 1],
+  bottom: [0.5, 1],
+  "bottom-right": [1, 1],
+};
+
+export const createWatermark = (patch: Partial<WatermarkTemplate> = {}): WatermarkTemplate => ({
+  id: Math.random().toString(36).slice(2),
+  name: "For verification only",
+  kind: "text",
+  text: "For verification only",
+  color: "#808080",
+  bold: true,
+  logo: null,
+  size: 0.06,
+  anchor: "bottom-right",
+  margin: 0.03,
+  opacity: 0.35,
+  rotation: -30,
+  tiled: true,
+  spacing: 2,
+  ...patch,
+});
+
+const fontFor = (template: WatermarkTemplate, height: number) => `${template.bold ? "bold " : ""}${Math.max(1, Math.round(height))}px sans-serif`;
+
+// size of one mark in pixels on an image whose shorter side is `short`
+const markSize = (ctx: DrawingContext, template: WatermarkTemplate, logo: (CanvasImageSource & { width: number; height: number }) | null, short: number) => {
+  const height = Math.max(1, template.size * short);
+  if (template.kind === "logo") return logo ? { width: (logo.width / logo.height) * height, height } : null;
+  if (!template.text.trim()) return null;
+  ctx.font = fontFor(template, height);
+  return { width: ctx.measureText(template.text).width, height };
+};
+
+// one mark centred on the origin
+const drawMark = (ctx: DrawingContext, template: WatermarkTemplate, logo: CanvasImageSource | null, width: number, height: number) => {
+  if (template.kind === "logo") {
+    if (logo) ctx.drawImage(logo, -width / 2, -height / 2, width, height);
+    return;
+  }
+  ctx.font = fontFor(template, height);
+  ctx.fillStyle = template.color;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(template.text, 0, 0);
+};
+
+/**
+ * Stamp a watermark onto a copy of `input`. Logo templates need their decoded `logo`; a
+ * template with nothing to draw returns the input unchanged.
+ */
+export const renderWatermark = (input: DrawingCanvas, template: WatermarkTemplate, logo: (CanvasImageSource & { width: number; height: number }) | null = null) => {
+  const { canvas, ctx } = createCanvas(input.width, input.height);
+  ctx.drawImage(input, 0, 0);
+  const w = canvas.width;
+  const h = canvas.height;
+  const short = Math.min(w, h);
+  const mark = markSize(ctx, template, logo, short);
+  if (!mark) return input;
+
+  ctx.globalAlpha = template.opacity;
+  ctx.imageSmoothingQuality = "high";
+  const angle = (template.rotation * Math.PI) / 180;
+
+  if (template.tiled) {
+    // a brick pattern in the rotated frame, large enough to cover the corners
+    const stepX = mark.width + template.spacing * mark.height;
+    const stepY = mark.height * (1 + template.spacing);
+    const reach = Math.hypot(w, h) / 2;
+    ctx.translate(w / 2, h / 2);
+    ctx.rotate(angle);
+    for (let row = -Math.ceil(reach / stepY); row <= Math.ceil(reach / stepY); row++) {
+      const offset = row % 2 ? stepX / 2 : 0;
+      for (let col = -Math.ceil(reach / stepX) - 1; col <= Math.ceil(reach / stepX); col++) {
+        ctx.save();
+        ctx.translate(col * stepX + offset, row * stepY);
+        drawMark(ctx, template, logo, mark.width, mark.height);
+        ctx.restore();
+      }
+    }
+    return canvas;
+  }
+
+  const margin = template.margin * short;
+  const [fx, fy] = ANCHOR_POSITIONS[template.anchor];
+  ctx.translate(margin + mark.width / 2 + fx * (w - 2 * margin - mark.width), margin + mark.height / 2 + fy * (h - 2 * margin - mark.height));
+  ctx.rotate(angle);
+  drawMark(ctx, template, logo, mark.width, mark.height);
+  return canvas;
+};
@@ -0,0 +1,32 @@
+import { requestToPromise, WATERMARK_STORE, withStore } from "./db";
+import { WatermarkTemplate } from "./watermark";
+
+// Saved watermark templates. They live in IndexedDB because logos are image blobs; the
+// template stamped automatically on exports is remembered by id.
+
+const AUTO_KEY = "easypix.autoWatermark";
+
+export const listWatermarks = () =>
+  withStore(WATERMARK_STORE, "readonly", async (store) => {
+    const templates = await requestToPromise(store.getAll() as IDBRequest<WatermarkTemplate[]>);
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  });
+
+export const saveWatermark = (template: WatermarkTemplate) => withStore(WATERMARK_STORE, "readwrite", (store) => requestToPromise(store.put(template)));
+
+export const deleteWatermark = async (id: string) => {
+  await withStore(WATERMARK_STORE, "readwrite", (store) => requestToPromise(store.delete(id)));
+  if (getAutoWatermarkId() === id) setAutoWatermarkId(null);
+};
+
+export const getAutoWatermarkId = () => localStorage.getItem(AUTO_KEY);
+
+export const setAutoWatermarkId = (id: string | null) => (id ? localStorage.setItem(AUTO_KEY, id) : localStorage.removeItem(AUTO_KEY));
+
+// the template to stamp on every export, save and batch run, if one is chosen
+export const loadAutoWatermark = async () => {
+  const id = getAutoWatermarkId();
+  if (!id) return null;
+  const template = await withStore(WATERMARK_STORE, "readonly", (store) => requestToPromise(store.get(id) as IDBRequest<WatermarkTemplate | undefined>));
+  return template ?? null;
+};